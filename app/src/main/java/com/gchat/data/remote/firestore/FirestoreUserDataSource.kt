@@ -130,8 +130,29 @@ class FirestoreUserDataSource @Inject constructor(
         )
     }
     
+    /**
+     * Registers this device's token in users/{userId}/tokens so pushes fan out
+     * to every device. The legacy fcmToken field is kept for older functions.
+     */
     suspend fun updateFcmToken(userId: String, token: String): Result<Unit> {
-        return updateUser(userId, mapOf("fcmToken" to token))
+        return try {
+            usersCollection
+                .document(userId)
+                .collection("tokens")
+                .document(token)
+                .set(
+                    mapOf(
+                        "token" to token,
+                        "platform" to "android",
+                        "updatedAt" to System.currentTimeMillis()
+                    ),
+                    com.google.firebase.firestore.SetOptions.merge()
+                )
+                .await()
+            updateUser(userId, mapOf("fcmToken" to token))
+        } catch (e: Exception) {
+            Result.failure(e)
+        }
     }
     
     suspend fun getUsersByIds(userIds: List<String>): Result<List<User>> {
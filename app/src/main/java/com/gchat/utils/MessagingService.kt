@@ -69,7 +69,7 @@ class MessagingService : FirebaseMessagingService() {
         val data = message.data
         
         when (data["type"]) {
-            "NEW_MESSAGE" -> {
+            "NEW_MESSAGE", "MENTION" -> {
                 val conversationId = data["conversationId"] ?: return
                 val senderId = data["senderId"] ?: return
                 val senderName = data["senderName"] ?: "Someone"
@@ -0,0 +1,114 @@
+/**
+ * Automatic Translation on Write
+ *
+ * For conversations with auto-translate enabled, detects a new text message's
+ * language once and writes a translation for every distinct participant
+ * preferred language into a `translations` map on the message document, so
+ * devices render it without each calling translateMessage.
+ *
+ * Enabled per deployment with SERVER_AUTO_TRANSLATE=true; clients keep
+ * translating on device for messages without a `translations` map.
+ */
+
+import { getFirestore, DocumentData, DocumentReference } from 'firebase-admin/firestore';
+import { detectLanguageInternal, translateText } from './translation';
+import { getCachedTranslation, cacheTranslation, normalizeLanguageCode } from './translationCache';
+import { checkRateLimit } from '../utils/rateLimit';
+import { recordCacheHit } from '../utils/usage';
+
+const db = getFirestore();
+
+// Whole pipeline, all languages included; stays well inside the trigger timeout
+const AUTO_TRANSLATION_BUDGET_MS = 20000;
+
+/**
+ * Whether a new message should be translated server-side
+ */
+export function shouldAutoTranslate(message: DocumentData, conversation: DocumentData): boolean {
+  return process.env.SERVER_AUTO_TRANSLATE === 'true' &&
+    conversation.autoTranslateEnabled === true &&
+    message.type === 'TEXT' &&
+    typeof message.text === 'string' &&
+    message.text.trim().length > 0;
+}
+
+/**
+ * Translate a message into each participant language and store the results
+ *
+ * Returns the translations by language (empty if skipped or failed). Never
+ * throws: a message without translations falls back to on-device translation.
+ */
+export async function autoTranslateMessage(
+  messageRef: DocumentReference,
+  message: DocumentData,
+  participants: string[],
+  conversationId: string
+): Promise<Map<string, string>> {
+  const translations = new Map<string, string>();
+  const startedAt = Date.now();
+  const deadline = startedAt + AUTO_TRANSLATION_BUDGET_MS;
+  const text: string = message.text;
+  const senderId: string = message.senderId;
+
+  try {
+    // Billed to the sender, once per message however many languages it needs
+    await checkRateLimit(senderId, 'autoTranslation');
+
+    const userDocs = await db.getAll(...participants.map((id) => db.collection('users').doc(id)));
+    const languages = new Map<string, string>();
+    userDocs.forEach((doc) => {
+      const language = normalizeLanguageCode(doc.data()?.preferredLanguage);
+      if (language !== 'auto') languages.set(doc.id, language);
+    });
+
+    const usage = { deadline, userId: senderId, conversationId };
+    const sourceLanguage = normalizeLanguageCode(
+      await detectLanguageInternal(text, languages.get(senderId), usage)
+    );
+
+    const targetLanguages = new Set(languages.values());
+    targetLanguages.delete(sourceLanguage);
+
+    await Promise.all(
+      Array.from(targetLanguages).map(async (targetLanguage) => {
+        const cacheKey = { sourceLanguage, targetLanguage };
+        try {
+          const cached = await getCachedTranslation(text, cacheKey);
+          if (cached) {
+            await recordCacheHit('translation', senderId, startedAt, conversationId);
+            translations.set(targetLanguage, cached.translatedText);
+            return;
+          }
+
+          const translatedText = await translateText(
+            text,
+            sourceLanguage === 'auto' ? undefined : sourceLanguage,
+            targetLanguage,
+            usage
+          );
+          if (!translatedText) return;
+
+          translations.set(targetLanguage, translatedText);
+          await cacheTranslation(text, translatedText, cacheKey, senderId);
+        } catch (error) {
+          console.error(`Auto-translation of ${messageRef.id} to ${targetLanguage} failed:`, error);
+        }
+      })
+    );
+
+    // An empty map would read as "nothing to translate" and stop the on-device fallback
+    await messageRef.update({
+      detectedLanguage: sourceLanguage,
+      ...(translations.size > 0 ? { translations: Object.fromEntries(translations) } : {}),
+    });
+
+    console.log(
+      `Auto-translated message ${messageRef.id} from ${sourceLanguage} into ` +
+      `${translations.size}/${targetLanguages.size} languages in ${Date.now() - startedAt}ms`
+    );
+  } catch (error) {
+    console.error(`Auto-translation of message ${messageRef.id} skipped:`, error);
+  }
+
+  return translations;
+}
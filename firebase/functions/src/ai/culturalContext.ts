@@ -1,8 +1,38 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
-import { getFirestore, FieldValue } from 'firebase-admin/firestore';
-import { openai, MODELS } from '../utils/openai';
+import { MODELS } from '../utils/openai';
+import { getAIProvider, functionDeadline } from './providers';
+import { chatJsonValidated, InvalidOutputError } from './structuredOutput';
+import { Schema, object, array, string, optional } from '../utils/schema';
 import { checkRateLimit } from '../utils/rateLimit';
-import * as crypto from 'crypto';
+import { recordCacheHit } from '../utils/usage';
+import { cacheGet, cacheSet, buildCacheKey, CacheNamespace } from '../utils/cache';
+import {
+  untrusted,
+  withUntrustedPolicy,
+  promptValue,
+  stripPromptMarkup,
+  detectInjection,
+  reportInjection,
+  checkTextOutput,
+  guardOutput,
+} from './promptBuilder';
+
+const CULTURAL_CONTEXT_TIMEOUT_SECONDS = 60;
+const FORMALITY_TIMEOUT_SECONDS = 60;
+
+const CULTURAL_CONTEXT_CACHE: CacheNamespace = {
+  feature: 'cultural-context',
+  model: MODELS.GPT4,
+  promptVersion: '2',
+  ttlDays: 30,
+};
+
+const FORMALITY_CACHE: CacheNamespace = {
+  feature: 'formality',
+  model: MODELS.GPT4,
+  promptVersion: '2',
+  ttlDays: 7,
+};
 
 interface CulturalContextRequest {
   messageId: string;
@@ -18,11 +48,24 @@ interface CulturalContextItem {
   examples?: string[];
 }
 
+const CULTURAL_CONTEXT_ITEM_SCHEMA: Schema<CulturalContextItem> = object<CulturalContextItem>({
+  phrase: string(),
+  literalTranslation: optional(string()),
+  actualMeaning: string(),
+  culturalContext: string({ default: '' }),
+  examples: array(string(), { default: [], maxItems: 3 }),
+});
+
+const CULTURAL_CONTEXT_SCHEMA = object<{ contexts: CulturalContextItem[] }>({
+  contexts: array(CULTURAL_CONTEXT_ITEM_SCHEMA),
+});
+
 interface CulturalContextResponse {
   messageId: string;
   contexts: CulturalContextItem[];
   language: string;
   cached: boolean;
+  injectionSuspected?: boolean; // The text looked like an attempt to instruct the AI
 }
 
 /**
@@ -36,14 +79,17 @@ interface CulturalContextResponse {
  * - Provides literal translations and actual meanings
  * - Explains cultural context and usage
  * - Caches results in Firestore (30-day TTL)
- * - Rate limiting: 100 requests/hour per user
+  * - Rate limiting: 100 requests/hour per user on the free plan
  */
 export const getCulturalContext = onCall<CulturalContextRequest>(
   { 
     cors: true,
+    timeoutSeconds: CULTURAL_CONTEXT_TIMEOUT_SECONDS,
     region: 'us-central1',
   },
   async (request) => {
+    const startedAt = Date.now();
+    const deadline = functionDeadline(CULTURAL_CONTEXT_TIMEOUT_SECONDS, startedAt);
     const { messageId, text, language } = request.data;
     const userId = request.auth?.uid;
 
@@ -65,52 +111,32 @@ export const getCulturalContext = onCall<CulturalContextRequest>(
       throw new HttpsError('invalid-argument', 'Message ID is required');
     }
 
-    // Check rate limit: 100 requests per hour
-    try {
-      await checkRateLimit(userId, 'cultural-context', {
-        maxRequests: 100,
-        windowMinutes: 60
-      });
-    } catch (error: any) {
-      // checkRateLimit throws HttpsError if limit exceeded
-      throw error;
-    }
-
-    // Generate cache key using hash of text + language
-    const textHash = crypto
-      .createHash('sha256')
-      .update(`${text}-${language}`)
-      .digest('hex');
+    // Check rate limit (free plan: 100 requests per hour)
+    await checkRateLimit(userId, 'cultural-context');
 
-    const db = getFirestore();
-    const cacheRef = db.collection('culturalContexts').doc(textHash);
+    const cacheKey = buildCacheKey(CULTURAL_CONTEXT_CACHE, text, { language });
+    const injectionSignals = detectInjection(text);
+    const injectionSuspected = reportInjection('cultural-context', userId, injectionSignals);
 
     try {
       // Check cache first
-      const cachedDoc = await cacheRef.get();
-      if (cachedDoc.exists) {
-        const cachedData = cachedDoc.data();
-        const now = Date.now();
-        const cacheAge = now - cachedData!.timestamp;
-        const CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
-
-        if (cacheAge < CACHE_TTL) {
-          return {
-            messageId,
-            contexts: cachedData!.contexts,
-            language,
-            cached: true,
-          } as CulturalContextResponse;
-        } else {
-          // Cache expired, delete it
-          await cacheRef.delete();
-        }
+      const cached = await cacheGet<{ contexts: CulturalContextItem[] }>(CULTURAL_CONTEXT_CACHE, cacheKey);
+      if (cached) {
+        await recordCacheHit('cultural-context', userId, startedAt);
+        return {
+          messageId,
+          contexts: cached.contexts,
+          language,
+          cached: true,
+          ...(injectionSuspected ? { injectionSuspected } : {}),
+        } as CulturalContextResponse;
       }
 
       // Build GPT-4 prompt
-      const systemPrompt = `You are an expert linguist specializing in cultural communication. Analyze text and identify idioms, slang, cultural references, and expressions that may not translate literally.`;
-      
-      const userPrompt = `Analyze the following ${language} text and identify any idioms, slang, cultural references, or expressions that may not translate literally.
+      const systemPrompt = withUntrustedPolicy(`You are an expert linguist specializing in cultural communication. Analyze text and identify idioms, slang, cultural references, and expressions that may not translate literally.`);
+      const languageName = promptValue(language);
+
+      const userPrompt = `Analyze the following ${languageName} text and identify any idioms, slang, cultural references, or expressions that may not translate literally.
 
 For each expression found, provide:
 1. The phrase/expression (exact text from message)
@@ -121,7 +147,8 @@ For each expression found, provide:
 
 If there are no special expressions, return an empty array.
 
-Text: "${text}"
+Text:
+${untrusted('text', text)}
 
 Return ONLY valid JSON in this exact format, no markdown or code blocks:
 {
@@ -136,55 +163,47 @@ Return ONLY valid JSON in this exact format, no markdown or code blocks:
   ]
 }`;
 
-      // Call GPT-4
-      const completion = await openai.chat.completions.create({
-        model: MODELS.GPT4,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.3, // Lower temperature for more consistent, factual responses
-        max_tokens: 1000,
-      });
-
-      const responseText = completion.choices[0]?.message?.content;
-      if (!responseText) {
-        throw new HttpsError('internal', 'No response from AI model');
-      }
-
-      // Parse JSON response
+      // Call GPT-4; malformed output gets one repair retry
       let parsedResponse: { contexts: CulturalContextItem[] };
       try {
-        // Remove markdown code blocks if present
-        const cleanedResponse = responseText
-          .replace(/```json\n?/g, '')
-          .replace(/```\n?/g, '')
-          .trim();
-        parsedResponse = JSON.parse(cleanedResponse);
-      } catch (parseError) {
-        console.error('Failed to parse AI response:', responseText);
-        throw new HttpsError('internal', 'Failed to parse AI response');
+        const completion = await chatJsonValidated({
+          feature: 'cultural-context',
+          deadline,
+          userId,
+          model: MODELS.GPT4,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.3, // Lower temperature for more consistent, factual responses
+          maxTokens: 1000,
+        }, CULTURAL_CONTEXT_SCHEMA);
+        parsedResponse = completion.data;
+      } catch (validationError) {
+        if (!(validationError instanceof InvalidOutputError)) throw validationError;
+        console.error('Invalid AI response:', validationError);
+        throw new HttpsError('internal', 'Invalid response format from AI');
       }
 
-      // Validate response structure
-      if (!Array.isArray(parsedResponse.contexts)) {
-        throw new HttpsError('internal', 'Invalid response format from AI');
+      // Every explained phrase must come from the text; anything else was invented or injected
+      const normalize = (value: string) => value.toLowerCase().replace(/[\u2018\u2019]/g, "'");
+      const normalizedText = normalize(text);
+      const contexts = parsedResponse.contexts.filter((item) =>
+        normalizedText.includes(normalize(stripPromptMarkup(item.phrase)))
+      );
+      if (contexts.length < parsedResponse.contexts.length) {
+        guardOutput('cultural-context', ['phrase-not-in-text'], injectionSignals);
       }
 
-      // Cache the result in Firestore
-      await cacheRef.set({
-        text,
-        language,
-        contexts: parsedResponse.contexts,
-        timestamp: Date.now(),
-        expiresAt: FieldValue.serverTimestamp(),
-      });
+      // Cache the result
+      await cacheSet(CULTURAL_CONTEXT_CACHE, cacheKey, { contexts }, { language });
 
       return {
         messageId,
-        contexts: parsedResponse.contexts,
+        contexts,
         language,
         cached: false,
+        ...(injectionSuspected ? { injectionSuspected } : {}),
       } as CulturalContextResponse;
 
     } catch (error: any) {
@@ -214,8 +233,8 @@ Return ONLY valid JSON in this exact format, no markdown or code blocks:
  * - Casual: contractions, informal language, slang, emojis
  * - Neutral: standard conversational tone
  * - Formal: professional language, no contractions, polite phrasing
- * - Rate limiting: 50 requests/hour per user
- * - Caches results (text + formality level as key)
+  * - Rate limiting: 50 requests/hour per user on the free plan
+ * - Caches results for 7 days (text + language + formality level as key)
  */
 export const adjustFormality = onCall<{
   text: string;
@@ -224,9 +243,12 @@ export const adjustFormality = onCall<{
 }>(
   {
     cors: true,
+    timeoutSeconds: FORMALITY_TIMEOUT_SECONDS,
     region: 'us-central1',
   },
   async (request) => {
+    const startedAt = Date.now();
+    const deadline = functionDeadline(FORMALITY_TIMEOUT_SECONDS, startedAt);
     const { text, language, targetFormality } = request.data;
     const userId = request.auth?.uid;
 
@@ -248,43 +270,23 @@ export const adjustFormality = onCall<{
       throw new HttpsError('invalid-argument', 'Invalid formality level');
     }
 
-    // Check rate limit: 50 requests per hour
-    try {
-      await checkRateLimit(userId, 'formality', {
-        maxRequests: 50,
-        windowMinutes: 60
-      });
-    } catch (error: any) {
-      // checkRateLimit throws HttpsError if limit exceeded
-      throw error;
-    }
-
-    // Generate cache key
-    const cacheKey = crypto
-      .createHash('sha256')
-      .update(`${text}-${language}-${targetFormality}`)
-      .digest('hex');
+    // Check rate limit (free plan: 50 requests per hour)
+    await checkRateLimit(userId, 'formality');
 
-    const db = getFirestore();
-    const cacheRef = db.collection('formalityAdjustments').doc(cacheKey);
+    const cacheKey = buildCacheKey(FORMALITY_CACHE, text, { language, targetFormality });
+    const injectionSignals = detectInjection(text);
+    const injectionSuspected = reportInjection('formality', userId, injectionSignals);
 
     try {
       // Check cache first
-      const cachedDoc = await cacheRef.get();
-      if (cachedDoc.exists) {
-        const cachedData = cachedDoc.data();
-        const now = Date.now();
-        const cacheAge = now - cachedData!.timestamp;
-        const CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
-
-        if (cacheAge < CACHE_TTL) {
-          return {
-            adjustedText: cachedData!.adjustedText,
-            cached: true,
-          };
-        } else {
-          await cacheRef.delete();
-        }
+      const cached = await cacheGet<{ adjustedText: string }>(FORMALITY_CACHE, cacheKey);
+      if (cached) {
+        await recordCacheHit('formality', userId, startedAt);
+        return {
+          adjustedText: cached.adjustedText,
+          cached: true,
+          ...(injectionSuspected ? { injectionSuspected } : {}),
+        };
       }
 
       // Build GPT-4 prompt
@@ -294,52 +296,55 @@ export const adjustFormality = onCall<{
         formal: 'Use professional language, no contractions (e.g., "cannot" instead of "can\'t"), polite and respectful phrasing. Maintain a professional tone suitable for business communication.',
       };
 
-      const systemPrompt = `You are an expert in ${language} language and communication styles. Rewrite text to match specific formality levels while preserving the original meaning, intent, AND LANGUAGE. Do not translate - only adjust the tone/formality.`;
+      const languageName = promptValue(language);
+      const systemPrompt = withUntrustedPolicy(`You are an expert in ${languageName} language and communication styles. Rewrite text to match specific formality levels while preserving the original meaning, intent, AND LANGUAGE. Do not translate - only adjust the tone/formality.`);
       
-      const userPrompt = `Rewrite the following ${language} text to match a ${targetFormality.toUpperCase()} tone. IMPORTANT: Keep the text in ${language} - do NOT translate it to any other language.
+      const userPrompt = `Rewrite the following ${languageName} text to match a ${targetFormality.toUpperCase()} tone. IMPORTANT: Keep the text in ${languageName} - do NOT translate it to any other language.
 
 Rules for ${targetFormality} tone:
 ${formalityRules[targetFormality]}
 
 Critical Requirements:
-- STAY IN ${language.toUpperCase()} LANGUAGE (do not translate)
+- STAY IN ${languageName.toUpperCase()} LANGUAGE (do not translate)
 - Preserve the core meaning and intent
 - Keep the same person/perspective (1st, 2nd, 3rd)
 - Maintain similar length (don't make it much longer or shorter)
-- Return ONLY the rewritten text in ${language}, no explanations or comments
+- Return ONLY the rewritten text in ${languageName}, no explanations or comments
 
-Original text (in ${language}): "${text}"
+Original text (in ${languageName}):
+${untrusted('text', text)}
 
-Rewritten text (in ${language}):`;
+Rewritten text (in ${languageName}):`;
 
       // Call GPT-4
-      const completion = await openai.chat.completions.create({
+      const completion = await getAIProvider().chat({
+        feature: 'formality',
+        deadline,
+        userId,
         model: MODELS.GPT4,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
         temperature: 0.7,
-        max_tokens: 500,
+        maxTokens: 500,
       });
 
-      const adjustedText = completion.choices[0]?.message?.content?.trim();
+      const adjustedText = stripPromptMarkup(completion.text);
       if (!adjustedText) {
         throw new HttpsError('internal', 'No response from AI model');
       }
 
+      // Must still be plain text in the original language
+      guardOutput('formality', checkTextOutput(completion.text, { source: text, language }), injectionSignals);
+
       // Cache the result
-      await cacheRef.set({
-        originalText: text,
-        language,
-        targetFormality,
-        adjustedText,
-        timestamp: Date.now(),
-      });
+      await cacheSet(FORMALITY_CACHE, cacheKey, { adjustedText }, { language, targetFormality });
 
       return {
         adjustedText,
         cached: false,
+        ...(injectionSuspected ? { injectionSuspected } : {}),
       };
 
     } catch (error: any) {
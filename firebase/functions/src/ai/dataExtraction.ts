@@ -1,6 +1,12 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
-import { openai, MODELS, CONFIGS } from '../utils/openai';
+import { MODELS, CONFIGS } from '../utils/openai';
+import { functionDeadline } from './providers';
+import { callFunctionValidated } from './structuredOutput';
+import { Schema, object, array, string, number, boolean, oneOf, optional, refine } from '../utils/schema';
 import { checkRateLimit } from '../utils/rateLimit';
+import { untrusted, withUntrustedPolicy, detectInjection, reportInjection, guardOutput } from './promptBuilder';
+
+const EXTRACTION_TIMEOUT_SECONDS = 30;
 
 /**
  * Request structure for data extraction
@@ -21,6 +27,31 @@ export enum EntityType {
   LOCATION = 'LOCATION',
 }
 
+/**
+ * Type-specific entity metadata
+ */
+interface EntityMetadata {
+  // Action item fields
+  task?: string;
+  priority?: 'low' | 'medium' | 'high';
+  assignedTo?: string;
+  dueDate?: string;
+  // Date/time fields
+  dateTime?: string;
+  isRange?: boolean;
+  endDateTime?: string;
+  description?: string;
+  // Contact fields
+  name?: string;
+  email?: string;
+  phone?: string;
+  // Location fields
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  placeName?: string;
+}
+
 /**
  * Base extracted entity
  */
@@ -28,9 +59,38 @@ interface ExtractedEntity {
   type: EntityType;
   text: string;
   confidence: number;
-  metadata: Record<string, any>;
+  metadata: EntityMetadata;
 }
 
+const dateTime = () => optional(refine(string(), (value) => !Number.isNaN(Date.parse(value)), 'expected an ISO 8601 datetime'));
+
+const ENTITY_METADATA_SCHEMA: Schema<EntityMetadata> = object<EntityMetadata>({
+  task: optional(string()),
+  priority: optional(oneOf(['low', 'medium', 'high'] as const)),
+  assignedTo: optional(string()),
+  dueDate: optional(string()),
+  dateTime: dateTime(),
+  isRange: optional(boolean()),
+  endDateTime: dateTime(),
+  description: optional(string()),
+  name: optional(string()),
+  email: optional(string()),
+  phone: optional(string()),
+  address: optional(string()),
+  latitude: optional(refine(number(), (value) => value >= -90 && value <= 90, 'expected a latitude')),
+  longitude: optional(refine(number(), (value) => value >= -180 && value <= 180, 'expected a longitude')),
+  placeName: optional(string()),
+}, { default: {} });
+
+const EXTRACTION_SCHEMA = object<{ entities: ExtractedEntity[] }>({
+  entities: array(object<ExtractedEntity>({
+    type: oneOf(Object.values(EntityType)),
+    text: string(),
+    confidence: number({ min: 0, max: 1, default: 0.5 }),
+    metadata: ENTITY_METADATA_SCHEMA,
+  }), { default: [] }),
+});
+
 /**
  * Response structure
  */
@@ -39,6 +99,7 @@ interface DataExtractionResponse {
   messageId?: string;
   conversationId?: string;
   extractedAt: number;
+  injectionSuspected?: boolean; // The text looked like an attempt to instruct the AI
 }
 
 /**
@@ -48,9 +109,11 @@ export const extractIntelligentData = onCall<DataExtractionRequest>(
   {
     region: 'us-central1',
     memory: '512MiB',
-    timeoutSeconds: 30,
+    timeoutSeconds: EXTRACTION_TIMEOUT_SECONDS,
   },
   async (request) => {
+    const deadline = functionDeadline(EXTRACTION_TIMEOUT_SECONDS);
+
     // Verify authentication
     if (!request.auth) {
       throw new HttpsError('unauthenticated', 'User must be authenticated');
@@ -68,26 +131,30 @@ export const extractIntelligentData = onCall<DataExtractionRequest>(
     }
 
     try {
-      // Rate limiting: 50 extractions per hour
-      await checkRateLimit(request.auth.uid, 'dataExtraction', {
-        maxRequests: 50,
-        windowMinutes: 60,
-      });
+      // Rate limiting (free plan: 50 extractions per hour)
+      await checkRateLimit(request.auth.uid, 'dataExtraction');
 
       console.log(`Extracting data from text (user: ${request.auth.uid})`);
 
+      const injectionSignals = detectInjection(text);
+      const injectionSuspected = reportInjection('dataExtraction', request.auth.uid, injectionSignals);
+
       // Get current date for context
       const now = new Date();
       const todayStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
       const currentTime = now.toISOString();
 
-      // Call OpenAI with function calling to extract entities
-      const completion = await openai.chat.completions.create({
+      // Call the model with function calling to extract entities; invalid arguments get one repair retry
+      const completion = await callFunctionValidated({
+        feature: 'dataExtraction',
+        deadline,
+        userId: request.auth.uid,
+        conversationId,
         model: MODELS.DATA_EXTRACTION || 'gpt-4-turbo-preview',
         messages: [
           {
             role: 'system',
-            content: `You are an intelligent data extraction assistant. 
+            content: withUntrustedPolicy(`You are an intelligent data extraction assistant. 
 
 IMPORTANT: Today's date is ${todayStr} and current time is ${currentTime}.
 
@@ -109,89 +176,85 @@ For each entity, provide:
 3. Confidence score (0.0 to 1.0)
 4. Structured metadata with CALCULATED dates/times
 
-Be conservative - only extract entities you're confident about. If there are no entities, return an empty array.`,
+Analyze only the message in the <untrusted-message> tags.
+Be conservative - only extract entities you're confident about. If there are no entities, return an empty array.`),
           },
           {
             role: 'user',
-            content: text,
+            content: untrusted('message', text),
           },
         ],
-        functions: [
-          {
-            name: 'extract_entities',
-            description: 'Extract structured entities from text',
-            parameters: {
-              type: 'object',
-              properties: {
-                entities: {
-                  type: 'array',
-                  description: 'Array of extracted entities',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: {
-                        type: 'string',
-                        enum: ['ACTION_ITEM', 'DATE_TIME', 'CONTACT', 'LOCATION'],
-                        description: 'Type of entity',
-                      },
-                      text: {
-                        type: 'string',
-                        description: 'Exact text from message containing the entity',
-                      },
-                      confidence: {
-                        type: 'number',
-                        description: 'Confidence score from 0.0 to 1.0',
-                        minimum: 0.0,
-                        maximum: 1.0,
-                      },
-                      metadata: {
-                        type: 'object',
-                        description: 'Type-specific metadata',
-                        properties: {
-                          // Action item fields
-                          task: { type: 'string' },
-                          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
-                          assignedTo: { type: 'string' },
-                          dueDate: { type: 'string' },
-                          // Date/time fields
-                          dateTime: { type: 'string', description: 'ISO 8601 format datetime (e.g., 2024-10-23T15:00:00Z)' },
-                          isRange: { type: 'boolean' },
-                          endDateTime: { type: 'string', description: 'ISO 8601 format datetime for range end' },
-                          description: { type: 'string' },
-                          // Contact fields
-                          name: { type: 'string' },
-                          email: { type: 'string' },
-                          phone: { type: 'string' },
-                          // Location fields
-                          address: { type: 'string' },
-                          latitude: { type: 'number' },
-                          longitude: { type: 'number' },
-                          placeName: { type: 'string' },
-                        },
+        function: {
+          name: 'extract_entities',
+          description: 'Extract structured entities from text',
+          parameters: {
+            type: 'object',
+            properties: {
+              entities: {
+                type: 'array',
+                description: 'Array of extracted entities',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['ACTION_ITEM', 'DATE_TIME', 'CONTACT', 'LOCATION'],
+                      description: 'Type of entity',
+                    },
+                    text: {
+                      type: 'string',
+                      description: 'Exact text from message containing the entity',
+                    },
+                    confidence: {
+                      type: 'number',
+                      description: 'Confidence score from 0.0 to 1.0',
+                      minimum: 0.0,
+                      maximum: 1.0,
+                    },
+                    metadata: {
+                      type: 'object',
+                      description: 'Type-specific metadata',
+                      properties: {
+                        // Action item fields
+                        task: { type: 'string' },
+                        priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+                        assignedTo: { type: 'string' },
+                        dueDate: { type: 'string' },
+                        // Date/time fields
+                        dateTime: { type: 'string', description: 'ISO 8601 format datetime (e.g., 2024-10-23T15:00:00Z)' },
+                        isRange: { type: 'boolean' },
+                        endDateTime: { type: 'string', description: 'ISO 8601 format datetime for range end' },
+                        description: { type: 'string' },
+                        // Contact fields
+                        name: { type: 'string' },
+                        email: { type: 'string' },
+                        phone: { type: 'string' },
+                        // Location fields
+                        address: { type: 'string' },
+                        latitude: { type: 'number' },
+                        longitude: { type: 'number' },
+                        placeName: { type: 'string' },
                       },
                     },
-                    required: ['type', 'text', 'confidence', 'metadata'],
                   },
+                  required: ['type', 'text', 'confidence', 'metadata'],
                 },
               },
-              required: ['entities'],
             },
+            required: ['entities'],
           },
-        ],
-        function_call: { name: 'extract_entities' },
+        },
         temperature: CONFIGS.DATA_EXTRACTION?.temperature || 0.2,
-        max_tokens: CONFIGS.DATA_EXTRACTION?.maxTokens || 1000,
-      });
-
-      // Parse function call response
-      const functionCall = completion.choices[0].message.function_call;
-      if (!functionCall || functionCall.name !== 'extract_entities') {
-        throw new Error('Invalid function call response from OpenAI');
+        maxTokens: CONFIGS.DATA_EXTRACTION?.maxTokens || 1000,
+      }, EXTRACTION_SCHEMA);
+
+      // Entities must quote the message; anything else was invented or injected
+      const returned = completion.data.entities;
+      const entities = returned.filter((entity) => text.toLowerCase().includes(entity.text.toLowerCase()));
+      if (entities.length < returned.length) {
+        guardOutput('dataExtraction', ['entity-not-in-text'], injectionSignals);
       }
 
-      const extractedData = JSON.parse(functionCall.arguments);
-      const entities: ExtractedEntity[] = extractedData.entities || [];
-
       console.log(`Extracted ${entities.length} entities`);
 
       const response: DataExtractionResponse = {
@@ -199,12 +262,13 @@ Be conservative - only extract entities you're confident about. If there are no
         messageId,
         conversationId,
         extractedAt: Date.now(),
+        ...(injectionSuspected ? { injectionSuspected } : {}),
       };
 
       return response;
     } catch (error: any) {
-      // Re-throw rate limit errors
-      if (error.code === 'resource-exhausted') {
+      // Re-throw rate limit, deadline and unavailable errors
+      if (error instanceof HttpsError) {
         throw error;
       }
 
@@ -279,11 +343,8 @@ export const extractBatchData = onCall<BatchExtractionRequest>(
     }
 
     try {
-      // Rate limiting: 10 batch extractions per hour (stricter than single)
-      await checkRateLimit(request.auth.uid, 'batchDataExtraction', {
-        maxRequests: 10,
-        windowMinutes: 60,
-      });
+      // Rate limiting (free plan: 10 batch extractions per hour, stricter than single)
+      await checkRateLimit(request.auth.uid, 'batchDataExtraction');
 
       console.log(`Batch extracting data from ${messages.length} messages (user: ${request.auth.uid})`);
 
@@ -333,8 +394,8 @@ export const extractBatchData = onCall<BatchExtractionRequest>(
 
       return response;
     } catch (error: any) {
-      // Re-throw rate limit errors
-      if (error.code === 'resource-exhausted') {
+      // Re-throw rate limit and quota errors
+      if (error instanceof HttpsError) {
         throw error;
       }
 
@@ -0,0 +1,136 @@
+/**
+ * Notification Translation
+ *
+ * Translates push notification bodies into each recipient language group
+ * within a fixed latency budget
+ */
+
+import { translateText } from './translation';
+import { getCachedTranslation, cacheTranslation, normalizeLanguageCode } from './translationCache';
+import { recordCacheHit } from '../utils/usage';
+
+// Pushes shouldn't wait on a slow model; past this we send the original text
+const TRANSLATION_BUDGET_MS = 2500;
+
+/**
+ * When notification translation must be done by; pass the same deadline to
+ * pretranslatedBodies and translateNotificationBodies so together they stay in budget
+ */
+export function notificationDeadline(): number {
+  return Date.now() + TRANSLATION_BUDGET_MS;
+}
+
+/**
+ * Translate a notification body into each target language
+ *
+ * Uses the shared translation cache so the recipient's later in-app
+ * translateMessage call is usually a cache hit (see translationCache); pass
+ * the source language when it's known locally, since translateMessage only
+ * falls back to source-agnostic entries for longer texts. Languages that miss
+ * the budget (or fail) are absent from the result and should fall back to the
+ * original text.
+ */
+export async function translateNotificationBodies(
+  text: string,
+  sourceLanguage: string | undefined,
+  targetLanguages: string[],
+  senderId: string,
+  conversationId?: string,
+  deadline: number = notificationDeadline()
+): Promise<Map<string, string>> {
+  const translations = new Map<string, string>();
+  const startedAt = Date.now();
+
+  await Promise.all(
+    targetLanguages.map(async (targetLanguage) => {
+      const translated = await withDeadline(
+        translateWithCache(text, sourceLanguage, targetLanguage, senderId, conversationId, startedAt, deadline),
+        deadline
+      );
+
+      if (translated) {
+        translations.set(targetLanguage, translated);
+      } else {
+        console.log(`Notification translation to ${targetLanguage} missed the latency budget`);
+      }
+    })
+  );
+
+  return translations;
+}
+
+async function translateWithCache(
+  text: string,
+  sourceLanguage: string | undefined,
+  targetLanguage: string,
+  senderId: string,
+  conversationId: string | undefined,
+  startedAt: number,
+  deadline: number
+): Promise<string | null> {
+  // Without a source (a model detection would cost a call per push) entries are keyed as source-agnostic
+  const cacheKey = { sourceLanguage: sourceLanguage || 'auto', targetLanguage };
+
+  try {
+    const cached = await getCachedTranslation(text, cacheKey);
+    if (cached?.translatedText) {
+      await recordCacheHit('translation', senderId, startedAt, conversationId);
+      return cached.translatedText;
+    }
+
+    // Same deadline so a retry can't outlive the budget
+    const translatedText = await translateText(text, sourceLanguage, targetLanguage, {
+      deadline,
+      userId: senderId,
+      conversationId,
+    });
+    if (!translatedText) return null;
+
+    // Keep caching even if the push already went out with the original text
+    await cacheTranslation(text, translatedText, cacheKey, senderId);
+    return translatedText;
+  } catch (error) {
+    console.error(`Notification translation to ${targetLanguage} failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Notification bodies from translations already in flight (server-side
+ * auto-translation), keyed by normalized language code. Null if they haven't
+ * settled by `deadline`: the languages are still being produced (and paid
+ * for), so callers shouldn't translate them again. Once settled, callers
+ * translate the languages that are missing themselves.
+ */
+export async function pretranslatedBodies(
+  pending: Promise<Map<string, string>>,
+  targetLanguages: string[],
+  deadline: number
+): Promise<Map<string, string> | null> {
+  const translations = await withDeadline(pending, deadline);
+  if (!translations) {
+    console.log('Auto-translation missed the notification latency budget');
+    return null;
+  }
+
+  return new Map(targetLanguages
+    .map(normalizeLanguageCode)
+    .filter((language) => translations.has(language))
+    .map((language) => [language, translations.get(language)!]));
+}
+
+/**
+ * Resolve to the promise's value, or null if it rejects or isn't settled by `deadline`
+ */
+function withDeadline<T>(promise: Promise<T | null>, deadline: number): Promise<T | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now()));
+    promise
+      .then((value) => resolve(value))
+      .catch((error) => {
+        console.error('Notification translation failed:', error);
+        resolve(null);
+      })
+      .finally(() => clearTimeout(timer));
+  });
+}
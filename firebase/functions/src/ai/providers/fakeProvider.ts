@@ -0,0 +1,139 @@
+/**
+ * Fake Provider
+ *
+ * Deterministic, offline stand-in for the Functions emulator and tests.
+ * Responses depend only on the request, never on the network.
+ */
+
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResult,
+  JsonResult,
+  StreamRequest,
+  FunctionCallRequest,
+  FunctionCallResult,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TokenUsage,
+} from './types';
+
+const FAKE_MODEL = 'fake-model';
+
+/**
+ * Canned JSON bodies per feature, matching what each handler expects
+ */
+const JSON_FIXTURES: Record<string, (input: string) => unknown> = {
+  smartReply: () => ({
+    replies: [
+      { text: 'Sounds good!', confidence: 0.9, category: 'AFFIRMATIVE' },
+      { text: 'Can you tell me more?', confidence: 0.8, category: 'QUESTION' },
+      { text: 'Thanks for letting me know.', confidence: 0.7, category: 'NEUTRAL' },
+    ],
+  }),
+  'cultural-context': () => ({ contexts: [] }),
+  // Mixed-language messages: only the foreign segments are sent
+  translation: (input) => ({
+    segments: (parseInput(input).segments || []).map((segment: { id: string; text: string }) => ({
+      id: segment.id,
+      translatedText: `[translation] ${segment.text}`,
+    })),
+  }),
+  translationQuality: (input) => ({
+    backTranslation: parseInput(input).original,
+    fidelity: 0.95,
+    answered: false,
+    commentary: false,
+  }),
+  languageDetection: (input) => ({ language: 'en', spans: [{ text: input, language: 'en' }] }),
+  batchTranslation: (input) => ({
+    translations: (parseInput(input).messages || []).map((message: { id: string; text: string }) => ({
+      id: message.id,
+      sourceLanguage: 'en',
+      translatedText: `[batchTranslation] ${message.text}`,
+    })),
+  }),
+};
+
+const FUNCTION_FIXTURES: Record<string, (input: string) => unknown> = {
+  extract_entities: () => ({ entities: [] }),
+};
+
+export class FakeProvider implements AIProvider {
+  readonly name = 'fake';
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const input = lastUserContent(request);
+    const text = `[${request.feature}] ${input}`;
+
+    return { text, model: FAKE_MODEL, usage: estimateUsage(request, text) };
+  }
+
+  async chatStream(request: StreamRequest): Promise<ChatResult> {
+    const result = request.json
+      ? await this.chatJson(request).then(({ raw, model, usage }) => ({ text: raw, model, usage }))
+      : await this.chat(request);
+
+    // Word-sized pieces, like a real stream
+    (result.text.match(/\S+\s*|\s+/g) || []).forEach((piece) => request.onDelta(piece));
+    return result;
+  }
+
+  async chatJson<T = unknown>(request: ChatRequest): Promise<JsonResult<T>> {
+    const fixture = JSON_FIXTURES[request.feature];
+    const data = (fixture ? fixture(lastUserContent(request)) : {}) as T;
+    const raw = JSON.stringify(data);
+
+    return { data, raw, model: FAKE_MODEL, usage: estimateUsage(request, raw) };
+  }
+
+  async callFunction<T = unknown>(request: FunctionCallRequest): Promise<FunctionCallResult<T>> {
+    const fixture = FUNCTION_FIXTURES[request.function.name];
+    const args = (fixture ? fixture(lastUserContent(request)) : {}) as T;
+    const raw = JSON.stringify(args);
+
+    return {
+      name: request.function.name,
+      arguments: args,
+      raw,
+      model: FAKE_MODEL,
+      usage: estimateUsage(request, raw),
+    };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    return {
+      text: '[fake transcription]',
+      model: FAKE_MODEL,
+      language: request.language || 'english',
+      durationSeconds: 0,
+    };
+  }
+}
+
+/**
+ * A JSON user prompt as an object; fixtures fall back to empty output for anything else
+ */
+function parseInput(input: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(input);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+function lastUserContent(request: ChatRequest): string {
+  const userMessages = request.messages.filter((message) => message.role === 'user');
+  // Drop the untrusted-content delimiters (promptBuilder) so fixtures see the payload
+  return (userMessages[userMessages.length - 1]?.content || '').replace(/<\/?untrusted-[^>]*>/g, '').trim();
+}
+
+/**
+ * Rough token counts (~4 characters per token) so usage accounting has numbers to record
+ */
+function estimateUsage(request: ChatRequest, output: string): TokenUsage {
+  const promptTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+  const completionTokens = Math.ceil(output.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
@@ -0,0 +1,79 @@
+/**
+ * AI Provider Selection
+ *
+ * Every model call goes through getAIProvider(), which applies the shared
+ * retry/timeout/circuit-breaker policy (resilience.ts) and records usage of
+ * each attempt (metering.ts). The backend is chosen by the AI_PROVIDER environment variable:
+ * - 'openai' (default): api.openai.com with OPENAI_API_KEY
+ * - 'openai-compatible': AI_BASE_URL with AI_API_KEY (self-hosted models)
+ * - 'fake': deterministic offline responses (default in the emulator without a key)
+ */
+
+import { OpenAI } from 'openai';
+import { getOpenAI, MODELS } from '../../utils/openai';
+import { OpenAIProvider, OpenAICompatibleProvider } from './openaiProvider';
+import { FakeProvider } from './fakeProvider';
+import { ResilientProvider } from './resilience';
+import { MeteredProvider } from './metering';
+import { AIProvider } from './types';
+
+export * from './types';
+export { functionDeadline } from './resilience';
+export { parseJson } from './openaiProvider';
+
+let _provider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (!_provider) {
+    _provider = new ResilientProvider(new MeteredProvider(createProvider()));
+    console.log(`Using AI provider: ${_provider.name}`);
+  }
+  return _provider;
+}
+
+/**
+ * Override the provider (tests)
+ */
+export function setAIProvider(provider: AIProvider | null): void {
+  _provider = provider;
+}
+
+function createProvider(): AIProvider {
+  const configured = process.env.AI_PROVIDER;
+  const inEmulator = process.env.FUNCTIONS_EMULATOR === 'true';
+
+  switch (configured) {
+    case 'fake':
+      return new FakeProvider();
+
+    case 'openai-compatible': {
+      const baseURL = process.env.AI_BASE_URL;
+      if (!baseURL) {
+        throw new Error('AI_BASE_URL is required when AI_PROVIDER=openai-compatible');
+      }
+      return new OpenAICompatibleProvider({
+        client: new OpenAI({
+          apiKey: process.env.AI_API_KEY || 'not-needed',
+          baseURL,
+          maxRetries: 0,
+        }),
+        defaultModel: process.env.AI_MODEL || MODELS.TRANSLATION,
+        transcriptionModel: process.env.AI_TRANSCRIPTION_MODEL,
+      });
+    }
+
+    case 'openai':
+    case undefined:
+    case '':
+      if (!configured && inEmulator && !process.env.OPENAI_API_KEY) {
+        return new FakeProvider();
+      }
+      return new OpenAIProvider({
+        client: getOpenAI(),
+        defaultModel: MODELS.TRANSLATION,
+      });
+
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${configured}"`);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Metered Provider
+ *
+ * Records tokens, audio duration, latency and outcome of every model call in
+ * the usage ledger (utils/usage), failed, timed-out and aborted ones included.
+ * Sits inside the resilience layer: each attempt is one upstream call and is
+ * recorded, and calls the circuit breaker rejects never reach it.
+ */
+
+import { recordUsage, UsageRecord, UsageStatus } from '../../utils/usage';
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResult,
+  JsonResult,
+  StreamRequest,
+  FunctionCallRequest,
+  FunctionCallResult,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TokenUsage,
+} from './types';
+
+export class MeteredProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: AIProvider) {
+    this.name = inner.name;
+  }
+
+  chat(request: ChatRequest): Promise<ChatResult> {
+    return this.meter(request, () => this.inner.chat(request), tokenUsage);
+  }
+
+  chatStream(request: StreamRequest): Promise<ChatResult> {
+    return this.meter(request, () => this.inner.chatStream(request), tokenUsage);
+  }
+
+  chatJson<T = unknown>(request: ChatRequest): Promise<JsonResult<T>> {
+    return this.meter(request, () => this.inner.chatJson<T>(request), tokenUsage);
+  }
+
+  callFunction<T = unknown>(request: FunctionCallRequest): Promise<FunctionCallResult<T>> {
+    return this.meter(request, () => this.inner.callFunction<T>(request), tokenUsage);
+  }
+
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    return this.meter(request, () => this.inner.transcribe(request), (result) => ({
+      model: result.model,
+      audioSeconds: result.durationSeconds,
+    }));
+  }
+
+  /**
+   * Run a call and record it whether it succeeds or not; failed calls are
+   * recorded without usage (the upstream may still have billed for them)
+   */
+  private async meter<T>(
+    request: ChatRequest | TranscriptionRequest,
+    call: () => Promise<T>,
+    usageOf: (result: T) => Partial<UsageRecord>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    let usage: Partial<UsageRecord> = { model: request.model, status: 'error' };
+
+    try {
+      const result = await call();
+      usage = { ...usageOf(result), status: 'success' };
+      return result;
+    } catch (error) {
+      usage.status = failureStatus(error, request.signal);
+      throw error;
+    } finally {
+      await recordUsage({
+        feature: request.feature,
+        userId: request.userId,
+        conversationId: request.conversationId,
+        ...usage,
+        cacheHit: false,
+        latencyMs: Date.now() - startedAt,
+      });
+    }
+  }
+}
+
+function tokenUsage(result: { model: string; usage?: TokenUsage }): Partial<UsageRecord> {
+  return {
+    model: result.model,
+    promptTokens: result.usage?.promptTokens,
+    completionTokens: result.usage?.completionTokens,
+  };
+}
+
+/**
+ * An attempt the resilience layer cancelled carries its timeout as the abort reason
+ */
+function failureStatus(error: any, signal: AbortSignal | undefined): UsageStatus {
+  if (signal?.aborted) {
+    return signal.reason?.name === 'AttemptTimeoutError' ? 'timeout' : 'aborted';
+  }
+  if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') return 'aborted';
+  return 'error';
+}
@@ -0,0 +1,217 @@
+/**
+ * OpenAI Provider
+ *
+ * Chat, JSON, function calling (tool calls) and Whisper transcription via the OpenAI SDK.
+ * OpenAICompatibleProvider points the same client at a self-hosted base URL.
+ */
+
+import { OpenAI } from 'openai';
+import { createReadStream } from 'fs';
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResult,
+  JsonResult,
+  StreamRequest,
+  FunctionCallRequest,
+  FunctionCallResult,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TokenUsage,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  client: OpenAI;
+  defaultModel: string;
+  transcriptionModel?: string;
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name: string = 'openai';
+
+  protected readonly client: OpenAI;
+  protected readonly defaultModel: string;
+  protected readonly transcriptionModel: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = options.client;
+    this.defaultModel = options.defaultModel;
+    this.transcriptionModel = options.transcriptionModel || 'whisper-1';
+  }
+
+  protected resolveModel(requested: string | undefined): string {
+    return requested || this.defaultModel;
+  }
+
+  protected resolveTranscriptionModel(requested: string | undefined): string {
+    return requested || this.transcriptionModel;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const completion = await this.client.chat.completions.create({
+      model: this.resolveModel(request.model),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }, { signal: request.signal });
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      model: completion.model,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async chatStream(request: StreamRequest): Promise<ChatResult> {
+    const stream = await this.client.chat.completions.create({
+      model: this.resolveModel(request.model),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    }, { signal: request.signal });
+
+    let text = '';
+    let model = this.resolveModel(request.model);
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      if (chunk.usage) usage = toUsage(chunk.usage);
+
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        request.onDelta(delta);
+      }
+    }
+
+    return { text, model, usage };
+  }
+
+  async chatJson<T = unknown>(request: ChatRequest): Promise<JsonResult<T>> {
+    const completion = await this.client.chat.completions.create({
+      model: this.resolveModel(request.model),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: { type: 'json_object' },
+    }, { signal: request.signal });
+
+    const raw = completion.choices[0]?.message?.content || '{}';
+    return {
+      data: parseJson<T>(raw),
+      raw,
+      model: completion.model,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async callFunction<T = unknown>(request: FunctionCallRequest): Promise<FunctionCallResult<T>> {
+    const completion = await this.client.chat.completions.create({
+      model: this.resolveModel(request.model),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      tools: [{ type: 'function', function: request.function }],
+      tool_choice: { type: 'function', function: { name: request.function.name } },
+    }, { signal: request.signal });
+
+    const functionCall = completion.choices[0]?.message?.tool_calls
+      ?.find((call) => call.type === 'function' && call.function.name === request.function.name)
+      ?.function;
+    if (!functionCall) {
+      throw new Error(`Model did not call ${request.function.name}`);
+    }
+
+    return {
+      name: functionCall.name,
+      arguments: parseJson<T>(functionCall.arguments),
+      raw: functionCall.arguments,
+      model: completion.model,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    // verbose_json includes the detected language and audio duration
+    const transcription = await this.client.audio.transcriptions.create({
+      file: createReadStream(request.filePath),
+      model: this.resolveTranscriptionModel(request.model),
+      language: request.language,
+      response_format: 'verbose_json',
+      temperature: request.temperature,
+    }, { signal: request.signal });
+
+    const verbose = transcription as unknown as { text: string; language?: string; duration?: number };
+    return {
+      text: verbose.text,
+      model: this.resolveTranscriptionModel(request.model),
+      language: verbose.language,
+      durationSeconds: verbose.duration,
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible servers (vLLM, Ollama, LM Studio, ...) at a custom base URL
+ *
+ * Requests always use the configured AI_MODEL. Many of these servers don't
+ * implement function calling, so callFunction asks for the arguments as a JSON
+ * object matching the function's parameter schema instead.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  // A self-hosted server only serves its own models; ignore OpenAI model names
+  protected resolveModel(): string {
+    return this.defaultModel;
+  }
+
+  protected resolveTranscriptionModel(): string {
+    return this.transcriptionModel;
+  }
+
+  async callFunction<T = unknown>(request: FunctionCallRequest): Promise<FunctionCallResult<T>> {
+    const schemaInstruction = `Respond ONLY with a JSON object that is a valid argument object for the function "${request.function.name}" (${request.function.description}). JSON Schema:
+${JSON.stringify(request.function.parameters)}`;
+
+    const result = await this.chatJson<T>({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'system', content: schemaInstruction },
+      ],
+    });
+
+    return {
+      name: request.function.name,
+      arguments: result.data,
+      raw: result.raw,
+      model: result.model,
+      usage: result.usage,
+    };
+  }
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Parse model JSON output, tolerating markdown code fences
+ */
+export function parseJson<T>(raw: string): T {
+  const cleaned = raw
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+  return JSON.parse(cleaned) as T;
+}
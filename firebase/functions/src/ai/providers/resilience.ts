@@ -0,0 +1,230 @@
+/**
+ * Resilient Provider
+ *
+ * Wraps any AIProvider with the shared retry, timeout and circuit-breaker
+ * policy so feature code never talks to an upstream without them.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import {
+  assertCircuitClosed,
+  recordCircuitSuccess,
+  recordCircuitFailure,
+} from '../../utils/circuitBreaker';
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResult,
+  JsonResult,
+  StreamRequest,
+  FunctionCallRequest,
+  FunctionCallResult,
+  TranscriptionRequest,
+  TranscriptionResult,
+} from './types';
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+// Time kept back from a function's timeoutSeconds for Firestore writes and the response
+const DEADLINE_RESERVE_MS = 5000;
+const DEFAULT_TIMEOUT_SECONDS = 60; // Cloud Functions default
+
+/**
+ * Epoch ms by which model calls must finish for a function with the given
+ * timeoutSeconds, counted from when the invocation started
+ */
+export function functionDeadline(
+  timeoutSeconds: number = DEFAULT_TIMEOUT_SECONDS,
+  startedAt: number = Date.now()
+): number {
+  const reserve = Math.min(DEADLINE_RESERVE_MS, timeoutSeconds * 1000 * 0.2);
+  return startedAt + timeoutSeconds * 1000 - reserve;
+}
+
+class AttemptTimeoutError extends Error {
+  constructor(feature: string) {
+    super(`${feature} model call timed out`);
+    this.name = 'AttemptTimeoutError';
+  }
+}
+
+export class ResilientProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: AIProvider) {
+    this.name = inner.name;
+  }
+
+  chat(request: ChatRequest): Promise<ChatResult> {
+    return this.execute(request, (attempt) => this.inner.chat(attempt));
+  }
+
+  /**
+   * Retried only until the first delta: text already passed on can't be taken back
+   */
+  chatStream(request: StreamRequest): Promise<ChatResult> {
+    let started = false;
+    const onDelta = (delta: string) => {
+      started = true;
+      request.onDelta(delta);
+    };
+
+    return this.execute(
+      { ...request, onDelta },
+      (attempt) => this.inner.chatStream(attempt),
+      () => !started
+    );
+  }
+
+  chatJson<T = unknown>(request: ChatRequest): Promise<JsonResult<T>> {
+    return this.execute(request, (attempt) => this.inner.chatJson<T>(attempt));
+  }
+
+  callFunction<T = unknown>(request: FunctionCallRequest): Promise<FunctionCallResult<T>> {
+    return this.execute(request, (attempt) => this.inner.callFunction<T>(attempt));
+  }
+
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    return this.execute(request, (attempt) => this.inner.transcribe(attempt));
+  }
+
+  private async execute<R extends ChatRequest | TranscriptionRequest, T>(
+    request: R,
+    call: (attempt: R) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    await assertCircuitClosed(this.name);
+
+    const deadline = request.deadline ?? functionDeadline();
+
+    for (let attempt = 1; ; attempt++) {
+      // Cancelled by the caller: no (further) attempts
+      request.signal?.throwIfAborted();
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw deadlineExceeded(request.feature);
+      }
+
+      try {
+        const result = await withTimeout(request, remaining, call);
+        await recordCircuitSuccess(this.name);
+        return result;
+      } catch (error: any) {
+        if (!isTransient(error) || request.signal?.aborted) {
+          throw error;
+        }
+
+        const delay = retryDelay(error, attempt);
+        const outOfTime = Date.now() + delay >= deadline;
+
+        if (attempt >= MAX_ATTEMPTS || outOfTime || !canRetry()) {
+          // Upstream rate limiting isn't an outage; don't trip the breaker on it
+          if (statusOf(error) !== 429) {
+            await recordCircuitFailure(this.name);
+          }
+          console.error(`${request.feature} failed after ${attempt} attempt(s):`, error.message);
+          if (error instanceof AttemptTimeoutError) {
+            throw deadlineExceeded(request.feature);
+          }
+          throw error;
+        }
+
+        console.warn(`${request.feature} attempt ${attempt} failed (${error.message}); retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+/**
+ * Run one attempt, aborting it once `timeoutMs` elapses or the caller's signal aborts
+ */
+async function withTimeout<R extends ChatRequest | TranscriptionRequest, T>(
+  request: R,
+  timeoutMs: number,
+  call: (attempt: R) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const callerAborted = () => controller.abort(request.signal?.reason);
+  request.signal?.addEventListener('abort', callerAborted, { once: true });
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AttemptTimeoutError(request.feature);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    // The race covers providers that ignore the abort signal
+    return await Promise.race([call({ ...request, signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', callerAborted);
+  }
+}
+
+function deadlineExceeded(feature: string): HttpsError {
+  return new HttpsError('deadline-exceeded', `AI service did not respond in time (${feature})`);
+}
+
+function statusOf(error: any): number | undefined {
+  return error?.status ?? error?.response?.status;
+}
+
+/**
+ * 408/409/429/5xx, connection failures and per-attempt timeouts are worth retrying
+ */
+function isTransient(error: any): boolean {
+  if (error instanceof HttpsError) return false;
+  if (error instanceof AttemptTimeoutError) return true;
+
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  const description = `${error?.name || ''} ${error?.code || ''} ${error?.message || ''}`;
+  return /connection|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|timed out/i.test(description);
+}
+
+/**
+ * Exponential backoff with full jitter, or the upstream's Retry-After when given
+ */
+function retryDelay(error: any, attempt: number): number {
+  const retryAfter = retryAfterMs(error);
+  if (retryAfter !== undefined) return retryAfter;
+
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function retryAfterMs(error: any): number | undefined {
+  const headers = error?.headers ?? error?.response?.headers;
+  if (!headers) return undefined;
+
+  const header = (key: string): string | undefined =>
+    typeof headers.get === 'function' ? headers.get(key) ?? undefined : headers[key];
+
+  const ms = Number(header('retry-after-ms'));
+  if (header('retry-after-ms') && Number.isFinite(ms)) return Math.max(0, ms);
+
+  const value = header('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value); // HTTP-date form
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
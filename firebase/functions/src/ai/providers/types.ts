@@ -0,0 +1,115 @@
+/**
+ * AI Provider Types
+ *
+ * Vendor-neutral request/response shapes shared by every model backend
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Common options for every chat-style call
+ */
+export interface ChatRequest {
+  feature: string; // e.g. 'translation', 'smartReply' - used for routing, fakes and accounting
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  deadline?: number; // epoch ms by which the call must finish, retries included
+  signal?: AbortSignal; // cancels the call; the resilience layer also aborts timed-out attempts through it
+  userId?: string; // for usage accounting
+  conversationId?: string;
+}
+
+/**
+ * A completion streamed as it's generated
+ */
+export interface StreamRequest extends ChatRequest {
+  onDelta: (delta: string) => void; // Called with each piece of text in order
+  json?: boolean; // Constrain the output to a JSON object
+}
+
+export interface ChatResult {
+  text: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface JsonResult<T = unknown> {
+  data: T;
+  raw: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * A function the model must call, described with JSON Schema parameters
+ */
+export interface FunctionDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface FunctionCallRequest extends ChatRequest {
+  function: FunctionDefinition;
+}
+
+export interface FunctionCallResult<T = unknown> {
+  name: string;
+  arguments: T;
+  raw: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface TranscriptionRequest {
+  feature: string;
+  filePath: string;
+  model?: string;
+  language?: string;
+  temperature?: number;
+  deadline?: number;
+  signal?: AbortSignal;
+  userId?: string;
+  conversationId?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  model: string;
+  language?: string;
+  durationSeconds?: number;
+}
+
+/**
+ * A model backend. Implementations must throw on upstream failure; callers
+ * map errors to HttpsError.
+ */
+export interface AIProvider {
+  readonly name: string;
+
+  /** Plain text completion */
+  chat(request: ChatRequest): Promise<ChatResult>;
+
+  /** Streamed completion; resolves with the full text once the stream ends */
+  chatStream(request: StreamRequest): Promise<ChatResult>;
+
+  /** Completion constrained to a JSON object, parsed */
+  chatJson<T = unknown>(request: ChatRequest): Promise<JsonResult<T>>;
+
+  /** Completion that must call the given function; returns its parsed arguments */
+  callFunction<T = unknown>(request: FunctionCallRequest): Promise<FunctionCallResult<T>>;
+
+  /** Speech-to-text for a local audio file */
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
@@ -7,10 +7,45 @@
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
-import { openai, MODELS } from '../utils/openai';
+import { MODELS } from '../utils/openai';
+import { getAIProvider, functionDeadline } from './providers';
 import { checkRateLimit } from '../utils/rateLimit';
-
-interface SmartReplyRequest {
+import { cacheGet, cacheSet, buildCacheKey, CacheNamespace } from '../utils/cache';
+import { recordCacheHit } from '../utils/usage';
+import { createArrayItemParser } from '../utils/jsonStream';
+import { resolveUserStyle, UserCommunicationStyle } from './styleProfile';
+import {
+  loadCalibration,
+  calibrateConfidence,
+  statsLanguage,
+  newSuggestionId,
+  replyIdFor,
+  recordSuggestions,
+} from './smartReplyFeedback';
+import { chatJsonValidated, repairJson, validateJson, StructuredResult } from './structuredOutput';
+import { Schema, validate, object, array, string, number, oneOf, optional, preprocess } from '../utils/schema';
+import {
+  untrusted,
+  withUntrustedPolicy,
+  promptValue,
+  stripPromptMarkup,
+  detectInjection,
+  reportInjection,
+  checkTextOutput,
+} from './promptBuilder';
+
+const SMART_REPLY_TIMEOUT_SECONDS = 120;
+const MAX_REPLIES = 3;
+
+// Replies depend on the latest messages, which the prompt (and so the key) includes
+const SMART_REPLY_CACHE: CacheNamespace = {
+  feature: 'smartReply',
+  model: MODELS.ASSISTANT,
+  promptVersion: '2',
+  ttlDays: 1,
+};
+
+export interface SmartReplyRequest {
   conversationId: string;
   incomingMessageId: string;
   targetLanguage: string;
@@ -24,271 +59,333 @@ interface Message {
   type: string;
 }
 
-interface UserCommunicationStyle {
-  avgMessageLength: number; // words
-  emojiUsage: 'FREQUENT' | 'OCCASIONAL' | 'RARE';
-  tone: 'CASUAL' | 'CONVERSATIONAL' | 'FORMAL';
-  commonPhrases: string[];
-  usesContractions: boolean;
-  punctuationStyle: string; // 'minimal', 'standard', 'expressive'
-}
-
-interface SmartReply {
+export interface SmartReply {
+  id: string; // For recordSmartReplyFeedback
   replyText: string;
-  confidence: number; // 0.0-1.0
+  confidence: number; // 0.0-1.0, calibrated against how often similar replies were sent
   category: 'AFFIRMATIVE' | 'NEGATIVE' | 'QUESTION' | 'NEUTRAL';
 }
 
+// A usable reply before ranking; confidence is the model's (also what's cached)
+type ModelReply = Omit<SmartReply, 'id'>;
+
+// A reply as the model returns it; confidence defaults by position in toSmartReply
+interface GeneratedReply {
+  text: string;
+  confidence?: number;
+  category: SmartReply['category'];
+}
+
+// Older prompts asked for `replyText`; accept either
+const GENERATED_REPLY_SCHEMA: Schema<GeneratedReply> = preprocess(
+  (value: any) => (value && typeof value === 'object' && value.text === undefined ? { ...value, text: value.replyText } : value),
+  object<GeneratedReply>({
+    text: string(),
+    confidence: optional(number({ min: 0, max: 1 })),
+    category: oneOf(['AFFIRMATIVE', 'NEGATIVE', 'QUESTION', 'NEUTRAL'] as const, { default: 'NEUTRAL' }),
+  })
+);
+
+const SMART_REPLY_SCHEMA = object<{ replies: GeneratedReply[] }>({
+  replies: array(GENERATED_REPLY_SCHEMA),
+});
+
+export interface SmartReplyResponse {
+  replies: SmartReply[];
+  userStyle: UserCommunicationStyle;
+  cached: boolean;
+  injectionSuspected?: boolean; // The conversation looked like an attempt to instruct the AI
+}
+
 /**
  * Generate context-aware smart reply suggestions
  */
 export const generateSmartReplies = onCall<SmartReplyRequest>(
   {
     memory: '1GiB', // Need more memory for RAG processing
-    timeoutSeconds: 120,
+    timeoutSeconds: SMART_REPLY_TIMEOUT_SECONDS,
     region: 'us-central1',
   },
   async (request) => {
+    const startedAt = Date.now();
+    const deadline = functionDeadline(SMART_REPLY_TIMEOUT_SECONDS, startedAt);
+
     // Verify authentication
     if (!request.auth) {
       throw new HttpsError('unauthenticated', 'User must be authenticated');
     }
 
-    const { conversationId, incomingMessageId, targetLanguage } = request.data;
-    const currentUserId = request.auth.uid;
+    return runSmartReplies(request.auth.uid, request.data, startedAt, deadline);
+  }
+);
 
-    // Validate input
-    if (!conversationId || !incomingMessageId || !targetLanguage) {
-      throw new HttpsError(
-        'invalid-argument',
-        'conversationId, incomingMessageId, and targetLanguage are required'
-      );
-    }
+/**
+ * Validate, rate limit and generate (or serve cached) replies, ranked by
+ * calibrated confidence. Shared by generateSmartReplies and the streaming
+ * endpoint, where `onReply` receives each suggestion as soon as it's complete
+ * (in generation order) and `signal` cancels generation once the client is
+ * gone. Throws HttpsError.
+ */
+export async function runSmartReplies(
+  currentUserId: string,
+  data: SmartReplyRequest,
+  startedAt: number,
+  deadline: number,
+  onReply?: (reply: SmartReply) => void,
+  signal?: AbortSignal
+): Promise<SmartReplyResponse> {
+  const { conversationId, incomingMessageId, targetLanguage } = data;
+
+  // Validate input
+  if (!conversationId || !incomingMessageId || !targetLanguage) {
+    throw new HttpsError(
+      'invalid-argument',
+      'conversationId, incomingMessageId, and targetLanguage are required'
+    );
+  }
 
-    try {
-      // Check rate limit (50 requests per hour)
-      await checkRateLimit(currentUserId, 'smartReply', {
-        maxRequests: 50,
-        windowMinutes: 60,
-      });
+  try {
+    // Check rate limit (free plan: 50 requests per hour)
+    await checkRateLimit(currentUserId, 'smartReply');
 
-      console.log(`Generating smart replies for conversation ${conversationId}...`);
+    console.log(`Generating smart replies for conversation ${conversationId}...`);
 
-      const db = getFirestore();
+    const db = getFirestore();
 
-      // === STEP 1: Verify conversation access ===
-      const conversationDoc = await db.collection('conversations').doc(conversationId).get();
-      if (!conversationDoc.exists) {
-        throw new HttpsError('not-found', 'Conversation not found');
-      }
+    // === STEP 1: Verify conversation access ===
+    const conversationDoc = await db.collection('conversations').doc(conversationId).get();
+    if (!conversationDoc.exists) {
+      throw new HttpsError('not-found', 'Conversation not found');
+    }
 
-      const conversation = conversationDoc.data();
-      const participants = conversation?.participants || [];
-      
-      if (!participants.includes(currentUserId)) {
-        throw new HttpsError('permission-denied', 'User is not a participant in this conversation');
-      }
+    const conversation = conversationDoc.data();
+    const participants = conversation?.participants || [];
+    
+    if (!participants.includes(currentUserId)) {
+      throw new HttpsError('permission-denied', 'User is not a participant in this conversation');
+    }
 
-      // === STEP 2: Fetch incoming message ===
-      const incomingMessageDoc = await db
-        .collection('conversations')
-        .doc(conversationId)
-        .collection('messages')
-        .doc(incomingMessageId)
-        .get();
+    // === STEP 2: Fetch incoming message ===
+    const incomingMessageDoc = await db
+      .collection('conversations')
+      .doc(conversationId)
+      .collection('messages')
+      .doc(incomingMessageId)
+      .get();
 
-      if (!incomingMessageDoc.exists) {
-        throw new HttpsError('not-found', 'Incoming message not found');
-      }
+    if (!incomingMessageDoc.exists) {
+      throw new HttpsError('not-found', 'Incoming message not found');
+    }
 
-      const incomingMessage = incomingMessageDoc.data() as Message;
+    const incomingMessage = incomingMessageDoc.data() as Message;
 
-      // Only generate replies for text messages
-      if (incomingMessage.type !== 'TEXT' || !incomingMessage.text) {
-        throw new HttpsError('invalid-argument', 'Can only generate replies for text messages');
-      }
+    // Only generate replies for text messages
+    if (incomingMessage.type !== 'TEXT' || !incomingMessage.text) {
+      throw new HttpsError('invalid-argument', 'Can only generate replies for text messages');
+    }
 
-      // === STEP 3: RAG Pipeline - Fetch recent conversation context (last 50 messages) ===
-      const messagesSnapshot = await db
-        .collection('conversations')
-        .doc(conversationId)
-        .collection('messages')
-        .where('type', '==', 'TEXT')
-        .orderBy('timestamp', 'desc')
-        .limit(50)
-        .get();
-
-      const allMessages: Message[] = messagesSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Message));
-
-      // Reverse to chronological order
-      allMessages.reverse();
-
-      // === STEP 4: Analyze user's communication style ===
-      const userMessages = allMessages.filter(msg => msg.senderId === currentUserId);
-      const userStyle = analyzeUserStyle(userMessages);
-
-      console.log('User communication style:', JSON.stringify(userStyle, null, 2));
-
-      // === STEP 5: Build conversation context for GPT-4 ===
-      // Take last 30 messages to keep within token limits
-      const recentMessages = allMessages.slice(-30);
-      const conversationContext = recentMessages
-        .map(msg => {
-          const label = msg.senderId === currentUserId ? 'You' : 'Other';
-          return `${label}: ${msg.text}`;
-        })
-        .join('\n');
-
-      // === STEP 6: Generate smart replies using GPT-4 ===
-      const systemPrompt = buildSystemPrompt(userStyle, targetLanguage);
-      const userPrompt = buildUserPrompt(conversationContext, incomingMessage.text);
-
-      console.log('Calling GPT-4 for smart reply generation...');
-
-      const completion = await openai.chat.completions.create({
-        model: MODELS.ASSISTANT,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-        temperature: 0.8, // Higher for diverse replies
-        max_tokens: 500,
-        response_format: { type: 'json_object' },
-      });
+    // === STEP 3: RAG Pipeline - Fetch recent conversation context (last 50 messages) ===
+    const messagesSnapshot = await db
+      .collection('conversations')
+      .doc(conversationId)
+      .collection('messages')
+      .where('type', '==', 'TEXT')
+      .orderBy('timestamp', 'desc')
+      .limit(50)
+      .get();
+
+    const allMessages: Message[] = messagesSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as Message));
+
+    // Reverse to chronological order
+    allMessages.reverse();
+
+    // === STEP 4: Resolve user's communication style ===
+    // Learned profile blended with this conversation, plus any per-conversation overrides
+    const userMessages = allMessages.filter(msg => msg.senderId === currentUserId);
+    const userStyle = await resolveUserStyle(currentUserId, conversationId, userMessages.map((msg) => msg.text));
+
+    console.log('User communication style:', JSON.stringify(userStyle, null, 2));
+
+    // === STEP 5: Build conversation context for GPT-4 ===
+    // Take last 30 messages to keep within token limits
+    const recentMessages = allMessages.slice(-30);
+    const conversationContext = recentMessages
+      .map(msg => {
+        const label = msg.senderId === currentUserId ? 'You' : 'Other';
+        return `${label}: ${msg.text}`;
+      })
+      .join('\n');
+
+    const injectionSuspected = reportInjection(
+      'smartReply',
+      currentUserId,
+      detectInjection(incomingMessage.text, ...recentMessages.map((msg) => msg.text || ''))
+    );
+
+    // === STEP 6: Generate smart replies using GPT-4 ===
+    const systemPrompt = buildSystemPrompt(userStyle, targetLanguage);
+    const userPrompt = buildUserPrompt(conversationContext, incomingMessage.text);
+
+    // Same prompt, same answer: serve repeats (and stream retries) from cache
+    const cacheKey = buildCacheKey(SMART_REPLY_CACHE, `${systemPrompt}\n${userPrompt}`, { userId: currentUserId });
+    const cached = await cacheGet<ModelReply[]>(SMART_REPLY_CACHE, cacheKey);
+
+    // Every set of suggestions (cached or not) gets fresh ids so feedback can be attributed
+    const language = statsLanguage(targetLanguage);
+    const calibration = await loadCalibration(language);
+    const suggestionId = newSuggestionId(currentUserId);
+    const present = (reply: ModelReply, index: number): SmartReply => ({
+      ...reply,
+      id: replyIdFor(suggestionId, index),
+      confidence: calibrateConfidence(calibration, reply.confidence, reply.category),
+    });
+    const finish = async (modelReplies: ModelReply[], presented: SmartReply[]): Promise<SmartReply[]> => {
+      await recordSuggestions(currentUserId, suggestionId, {
+        conversationId,
+        language,
+        userStyle,
+        replies: modelReplies.map((reply, index) => ({
+          replyText: reply.replyText,
+          category: reply.category,
+          modelConfidence: reply.confidence,
+          confidence: presented[index].confidence,
+        })),
+      }).catch((error) => console.error('Failed to record smart reply suggestions:', error));
+      return [...presented].sort((a, b) => b.confidence - a.confidence);
+    };
+
+    if (cached) {
+      await recordCacheHit('smartReply', currentUserId, startedAt, conversationId);
+      const presented = cached.map(present);
+      presented.forEach((reply) => onReply?.(reply));
+      return {
+        replies: await finish(cached, presented),
+        userStyle,
+        cached: true,
+        ...(injectionSuspected ? { injectionSuspected } : {}),
+      };
+    }
 
-      const responseText = completion.choices[0].message.content || '{}';
-      const parsedResponse = JSON.parse(responseText);
+    console.log('Calling GPT-4 for smart reply generation...');
+
+    const chatRequest = {
+      feature: 'smartReply',
+      deadline,
+      signal,
+      userId: currentUserId,
+      conversationId,
+      model: MODELS.ASSISTANT,
+      messages: [
+        {
+          role: 'system' as const,
+          content: systemPrompt,
+        },
+        {
+          role: 'user' as const,
+          content: userPrompt,
+        },
+      ],
+      temperature: 0.8, // Higher for diverse replies
+      maxTokens: 500,
+    };
 
-      // Validate and format response
-      const replies: SmartReply[] = (parsedResponse.replies || []).map((reply: any, index: number) => ({
-        replyText: reply.text || reply.replyText || '',
-        confidence: reply.confidence || 0.9 - (index * 0.1), // Decreasing confidence
-        category: reply.category || 'NEUTRAL',
-      }));
+    let parsedResponse: { replies: GeneratedReply[] };
+    // Replies already sent to a streaming client are final
+    const streamedReplies: ModelReply[] = [];
+    if (onReply) {
+      // Emit each reply as soon as its JSON object is complete and valid
+      const completion = await getAIProvider().chatStream({
+        ...chatRequest,
+        json: true,
+        onDelta: createArrayItemParser<unknown>((item) => {
+          const generated = validate(GENERATED_REPLY_SCHEMA, item).value;
+          if (!generated) return;
+          const reply = toSmartReply(generated, streamedReplies.length);
+          if (streamedReplies.length < MAX_REPLIES && isUsableReply(reply, incomingMessage.text, targetLanguage)) {
+            onReply(present(reply, streamedReplies.length));
+            streamedReplies.push(reply);
+          }
+        }),
+      });
 
-      // Ensure we have 3 replies
-      if (replies.length < 3) {
-        console.warn(`Only ${replies.length} replies generated, expected 3`);
+      // Repair only if nothing was streamed; otherwise keep the replies the client already has
+      const result = validateJson(completion.text, SMART_REPLY_SCHEMA);
+      let repaired: StructuredResult<{ replies: GeneratedReply[] }> | undefined;
+      if (streamedReplies.length === 0 && (result.issues.length > 0 || !result.value)) {
+        repaired = await repairJson(chatRequest, completion.text, result, SMART_REPLY_SCHEMA);
       }
+      parsedResponse = repaired?.data ?? result.value ?? { replies: [] };
+    } else {
+      const completion = await chatJsonValidated(chatRequest, SMART_REPLY_SCHEMA);
+      parsedResponse = completion.data;
+    }
 
-      console.log(`Successfully generated ${replies.length} smart replies`);
+    // Validate and format response
+    const replies: ModelReply[] = streamedReplies.length > 0
+      ? streamedReplies
+      : parsedResponse.replies
+        .map(toSmartReply)
+        .filter((reply) => isUsableReply(reply, incomingMessage.text, targetLanguage));
 
-      return {
-        replies: replies.slice(0, 3), // Return max 3 replies
-        userStyle,
-        cached: false,
-      };
-    } catch (error: any) {
-      console.error('Smart reply generation error:', error);
+    // Ensure we have 3 replies
+    if (replies.length < MAX_REPLIES) {
+      console.warn(`Only ${replies.length} replies generated, expected ${MAX_REPLIES}`);
+    }
 
-      // Re-throw rate limit and permission errors
-      if (error.code === 'resource-exhausted' || error.code === 'permission-denied') {
-        throw error;
-      }
+    console.log(`Successfully generated ${replies.length} smart replies`);
+
+    const finalReplies = replies.slice(0, MAX_REPLIES); // Return max 3 replies
+    await cacheSet(SMART_REPLY_CACHE, cacheKey, finalReplies, { userId: currentUserId, conversationId });
 
-      throw new HttpsError('internal', `Smart reply generation failed: ${error.message}`);
+    const presented = finalReplies.map(present);
+    if (onReply && streamedReplies.length === 0) {
+      presented.forEach((reply) => onReply(reply));
     }
-  }
-);
 
-/**
- * Analyze user's communication style from their message history
- */
-function analyzeUserStyle(userMessages: Message[]): UserCommunicationStyle {
-  if (userMessages.length === 0) {
-    // Return default style if no message history
     return {
-      avgMessageLength: 10,
-      emojiUsage: 'OCCASIONAL',
-      tone: 'CONVERSATIONAL',
-      commonPhrases: [],
-      usesContractions: true,
-      punctuationStyle: 'standard',
+      replies: await finish(finalReplies, presented),
+      userStyle,
+      cached: false,
+      ...(injectionSuspected ? { injectionSuspected } : {}),
     };
-  }
+  } catch (error: any) {
+    console.error('Smart reply generation error:', error);
 
-  // Calculate average message length (in words)
-  const totalWords = userMessages.reduce((sum, msg) => {
-    return sum + (msg.text?.split(/\s+/).length || 0);
-  }, 0);
-  const avgMessageLength = Math.round(totalWords / userMessages.length);
-
-  // Analyze emoji usage
-  const emojiRegex = /[\p{Emoji_Presentation}\p{Emoji}\u200D]/gu;
-  let totalEmojis = 0;
-  userMessages.forEach(msg => {
-    const matches = msg.text?.match(emojiRegex);
-    totalEmojis += matches ? matches.length : 0;
-  });
-  const emojisPerMessage = totalEmojis / userMessages.length;
-  const emojiUsage = emojisPerMessage > 2 ? 'FREQUENT' : emojisPerMessage > 0.5 ? 'OCCASIONAL' : 'RARE';
-
-  // Detect contractions (indicative of casual tone)
-  const contractionRegex = /\b(can't|won't|don't|didn't|isn't|aren't|wasn't|weren't|haven't|hasn't|hadn't|wouldn't|shouldn't|couldn't|I'm|you're|he's|she's|it's|we're|they're|I've|you've|we've|they've|I'll|you'll|he'll|she'll|we'll|they'll)\b/gi;
-  let totalContractions = 0;
-  userMessages.forEach(msg => {
-    const matches = msg.text?.match(contractionRegex);
-    totalContractions += matches ? matches.length : 0;
-  });
-  const usesContractions = totalContractions > userMessages.length * 0.2; // 20% threshold
-
-  // Analyze punctuation style
-  let exclamationCount = 0;
-  let questionCount = 0;
-  let multiPunctuation = 0;
-  userMessages.forEach(msg => {
-    exclamationCount += (msg.text?.match(/!/g) || []).length;
-    questionCount += (msg.text?.match(/\?/g) || []).length;
-    multiPunctuation += (msg.text?.match(/[!?]{2,}|\.{3,}/g) || []).length;
-  });
-  const punctuationStyle = 
-    multiPunctuation > userMessages.length * 0.3 ? 'expressive' :
-    exclamationCount + questionCount < userMessages.length * 0.1 ? 'minimal' :
-    'standard';
-
-  // Determine overall tone
-  const isShortMessages = avgMessageLength < 8;
-  const tone = 
-    (!usesContractions && punctuationStyle === 'standard' && emojiUsage === 'RARE') ? 'FORMAL' :
-    (usesContractions && (isShortMessages || emojiUsage === 'FREQUENT')) ? 'CASUAL' :
-    'CONVERSATIONAL';
-
-  // Extract common phrases (simple approach - find repeated 2-3 word sequences)
-  const phraseMap = new Map<string, number>();
-  userMessages.forEach(msg => {
-    const words = msg.text?.toLowerCase().split(/\s+/) || [];
-    for (let i = 0; i < words.length - 1; i++) {
-      const phrase = `${words[i]} ${words[i + 1]}`;
-      phraseMap.set(phrase, (phraseMap.get(phrase) || 0) + 1);
+    // Re-throw rate limit, permission, deadline and unavailable errors
+    if (error instanceof HttpsError) {
+      throw error;
     }
-  });
 
-  // Get top 5 common phrases (appearing at least 3 times)
-  const commonPhrases = Array.from(phraseMap.entries())
-    .filter(([_, count]) => count >= 3)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 5)
-    .map(([phrase]) => phrase);
+    throw new HttpsError('internal', `Smart reply generation failed: ${error.message}`);
+  }
+}
 
+function toSmartReply(reply: GeneratedReply, index: number): ModelReply {
   return {
-    avgMessageLength,
-    emojiUsage,
-    tone,
-    commonPhrases,
-    usesContractions,
-    punctuationStyle,
+    replyText: stripPromptMarkup(reply.text),
+    confidence: reply.confidence ?? 0.9 - (index * 0.1), // Decreasing confidence
+    category: reply.category,
   };
 }
 
+/**
+ * Drop empty replies and ones in the wrong language or format (e.g. JSON a
+ * message asked for)
+ */
+function isUsableReply(reply: ModelReply, incomingText: string, targetLanguage: string): boolean {
+  if (!reply.replyText) return false;
+
+  const problems = checkTextOutput(reply.replyText, { source: incomingText, language: targetLanguage });
+  if (problems.length > 0) {
+    console.warn(`Dropping smart reply that failed validation: ${problems.join(', ')}`);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Build system prompt for GPT-4 based on user style
  */
@@ -305,11 +402,13 @@ function buildSystemPrompt(style: UserCommunicationStyle, targetLanguage: string
     RARE: 'Use emojis sparingly or not at all.',
   };
 
-  return `You are an AI assistant generating reply suggestions for a messaging app. 
+  const language = promptValue(targetLanguage);
+
+  return withUntrustedPolicy(`You are an AI assistant generating reply suggestions for a messaging app. 
 Your goal is to provide 3 contextually appropriate reply options that match the user's communication style.
 
-TARGET LANGUAGE: ${targetLanguage}
-All replies must be in ${targetLanguage}.
+TARGET LANGUAGE: ${language}
+All replies must be in ${language}.
 
 USER'S COMMUNICATION STYLE:
 - Tone: ${style.tone} (${toneDescriptions[style.tone]})
@@ -317,7 +416,7 @@ USER'S COMMUNICATION STYLE:
 - Emoji usage: ${style.emojiUsage} (${emojiGuidance[style.emojiUsage]})
 - Contractions: ${style.usesContractions ? 'Uses contractions frequently' : 'Prefers full words'}
 - Punctuation: ${style.punctuationStyle}
-${style.commonPhrases.length > 0 ? `- Common phrases: ${style.commonPhrases.join(', ')}` : ''}
+${style.commonPhrases.length > 0 ? `- Common phrases: ${style.commonPhrases.map((phrase) => `"${promptValue(phrase)}"`).join(', ')}` : ''}
 
 REPLY GENERATION RULES:
 1. Generate exactly 3 diverse replies
@@ -347,7 +446,7 @@ Return a JSON object with this exact structure:
       "category": "NEUTRAL"
     }
   ]
-}`;
+}`);
 }
 
 /**
@@ -355,10 +454,10 @@ Return a JSON object with this exact structure:
  */
 function buildUserPrompt(conversationContext: string, incomingMessage: string): string {
   return `CONVERSATION CONTEXT:
-${conversationContext}
+${untrusted('conversation', conversationContext)}
 
 INCOMING MESSAGE (requiring reply):
-Other: ${incomingMessage}
+${untrusted('incoming-message', `Other: ${incomingMessage}`)}
 
 Generate 3 diverse, contextually appropriate reply suggestions that match my communication style.`;
 }
@@ -0,0 +1,334 @@
+/**
+ * Smart Reply Feedback Module
+ *
+ * Learns which suggestions users actually send:
+ * - every set of suggestions is recorded with the user's style snapshot
+ *   (users/{uid}/smartReplySuggestions/{suggestionId}, expired by TTL)
+ * - recordSmartReplyFeedback stores what happened to a reply (accepted,
+ *   edited then sent, dismissed) once per reply (users/{uid}/smartReplyFeedback)
+ *   and adds it to acceptance counts per language, by category and by model
+ *   confidence bucket (sharded under smartReplyStats/{language})
+ * - calibrateConfidence() turns a model confidence into the acceptance rate
+ *   observed for similar suggestions, which is what replies are ranked by
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { parseLanguageTag } from '../utils/languageTags';
+import type { SmartReply } from './smartReply';
+import type { UserCommunicationStyle } from './styleProfile';
+
+const db = getFirestore();
+
+export type SmartReplyOutcome = 'ACCEPTED' | 'EDITED' | 'DISMISSED';
+
+const OUTCOMES: SmartReplyOutcome[] = ['ACCEPTED', 'EDITED', 'DISMISSED'];
+
+// How much each outcome counts as acceptance
+const OUTCOME_SCORES: Record<SmartReplyOutcome, number> = { ACCEPTED: 1, EDITED: 0.5, DISMISSED: 0 };
+
+const STATS_SHARDS = 10;
+const CONFIDENCE_BUCKETS = 10;
+
+// Observations before history outweighs the prior (the model's own confidence)
+const PRIOR_WEIGHT = 20;
+
+// Calibration is read on every generation; share it across requests on an instance
+const LOCAL_CACHE_MS = 10 * 60 * 1000;
+
+// Suggestion records are removed by a Firestore TTL policy on `expireAt` after this;
+// feedback on a removed suggestion is rejected as not found
+const SUGGESTION_RETENTION_DAYS = 30;
+
+// Longest sent text compared when measuring how much a reply was edited
+const MAX_EDIT_COMPARE_LENGTH = 500;
+
+interface OutcomeCounts {
+  accepted: number;
+  edited: number;
+  dismissed: number;
+}
+
+/**
+ * Acceptance counts for one language (one shard of smartReplyStats/{language})
+ */
+interface ReplyStats {
+  categories: Partial<Record<SmartReply['category'], OutcomeCounts>>;
+  confidenceBuckets: Record<string, OutcomeCounts>; // Model confidence bucket index ('0'-'9')
+}
+
+export type ConfidenceCalibration = ReplyStats;
+
+/**
+ * users/{uid}/smartReplySuggestions/{suggestionId}
+ */
+interface SuggestionRecord {
+  conversationId: string;
+  language: string;
+  userStyle: UserCommunicationStyle;
+  replies: Array<{
+    replyText: string;
+    category: SmartReply['category'];
+    modelConfidence: number;
+    confidence: number; // Calibrated, as shown
+  }>;
+  createdAt: number;
+  expireAt: Timestamp;
+}
+
+/**
+ * users/{uid}/smartReplyFeedback/{replyId}
+ */
+interface FeedbackRecord {
+  suggestionId: string;
+  replyIndex: number;
+  conversationId: string;
+  outcome: SmartReplyOutcome;
+  category: SmartReply['category'];
+  language: string;
+  modelConfidence: number;
+  confidence: number;
+  userStyle: UserCommunicationStyle;
+  editRatio?: number; // EDITED only: share of the reply that was changed (0.0-1.0)
+  createdAt: number;
+}
+
+interface SmartReplyFeedbackRequest {
+  replyId: string;
+  outcome: SmartReplyOutcome;
+  sentText?: string; // EDITED only: the text that was actually sent
+}
+
+interface SmartReplyFeedbackResponse {
+  replyId: string;
+  recorded: boolean; // False if feedback for this reply was already recorded
+}
+
+const localCalibration = new Map<string, { calibration: ConfidenceCalibration; fetchedAt: number }>();
+
+function suggestionsRef(userId: string) {
+  return db.collection('users').doc(userId).collection('smartReplySuggestions');
+}
+
+function statsShardRef(language: string, shard: number) {
+  return db.collection('smartReplyStats').doc(language).collection('shards').doc(String(shard));
+}
+
+/**
+ * Language key for acceptance stats: the primary subtag, or 'und' for names and unknown values
+ */
+export function statsLanguage(targetLanguage: string): string {
+  return parseLanguageTag(targetLanguage)?.language || 'und';
+}
+
+/**
+ * Id for a new set of suggestions; reply ids are `${suggestionId}-${index}`
+ */
+export function newSuggestionId(userId: string): string {
+  return suggestionsRef(userId).doc().id;
+}
+
+export function replyIdFor(suggestionId: string, index: number): string {
+  return `${suggestionId}-${index}`;
+}
+
+function parseReplyId(replyId: string): { suggestionId: string; index: number } | null {
+  const match = /^([A-Za-z0-9]+)-(\d+)$/.exec(replyId);
+  return match ? { suggestionId: match[1], index: Number(match[2]) } : null;
+}
+
+function confidenceBucket(confidence: number): string {
+  return String(Math.min(CONFIDENCE_BUCKETS - 1, Math.max(0, Math.floor(confidence * CONFIDENCE_BUCKETS))));
+}
+
+function emptyCounts(): OutcomeCounts {
+  return { accepted: 0, edited: 0, dismissed: 0 };
+}
+
+function addCounts(a: OutcomeCounts | undefined, b: OutcomeCounts | undefined): OutcomeCounts {
+  return {
+    accepted: (a?.accepted || 0) + (b?.accepted || 0),
+    edited: (a?.edited || 0) + (b?.edited || 0),
+    dismissed: (a?.dismissed || 0) + (b?.dismissed || 0),
+  };
+}
+
+/**
+ * Acceptance rate, smoothed towards `prior` while there are few observations
+ */
+function acceptanceRate(counts: OutcomeCounts | undefined, prior: number): number {
+  const { accepted, edited, dismissed } = addCounts(counts, undefined);
+  const score = accepted * OUTCOME_SCORES.ACCEPTED + edited * OUTCOME_SCORES.EDITED + dismissed * OUTCOME_SCORES.DISMISSED;
+  return (score + prior * PRIOR_WEIGHT) / (accepted + edited + dismissed + PRIOR_WEIGHT);
+}
+
+/**
+ * Summed acceptance counts for a language (cached per instance)
+ */
+export async function loadCalibration(language: string): Promise<ConfidenceCalibration> {
+  const local = localCalibration.get(language);
+  if (local && Date.now() - local.fetchedAt < LOCAL_CACHE_MS) {
+    return local.calibration;
+  }
+
+  const shards = await db.collection('smartReplyStats').doc(language).collection('shards').get();
+  const calibration: ConfidenceCalibration = { categories: {}, confidenceBuckets: {} };
+  shards.docs.forEach((doc) => {
+    const shard = doc.data() as Partial<ReplyStats>;
+    Object.entries(shard.categories || {}).forEach(([category, counts]) => {
+      const key = category as SmartReply['category'];
+      calibration.categories[key] = addCounts(calibration.categories[key], counts);
+    });
+    Object.entries(shard.confidenceBuckets || {}).forEach(([bucket, counts]) => {
+      calibration.confidenceBuckets[bucket] = addCounts(calibration.confidenceBuckets[bucket], counts);
+    });
+  });
+
+  localCalibration.set(language, { calibration, fetchedAt: Date.now() });
+  return calibration;
+}
+
+/**
+ * Expected acceptance of a reply: the observed rate for its model confidence
+ * bucket (the model's confidence until there's history), scaled by how its
+ * category performs relative to all categories
+ */
+export function calibrateConfidence(
+  calibration: ConfidenceCalibration,
+  modelConfidence: number,
+  category: SmartReply['category']
+): number {
+  const bucketRate = acceptanceRate(calibration.confidenceBuckets[confidenceBucket(modelConfidence)], modelConfidence);
+
+  const total = Object.values(calibration.categories).reduce<OutcomeCounts>(addCounts, emptyCounts());
+  const overallRate = acceptanceRate(total, bucketRate);
+  const categoryRate = acceptanceRate(calibration.categories[category], overallRate);
+  const lift = overallRate > 0 ? categoryRate / overallRate : 1;
+
+  return Math.round(Math.min(1, Math.max(0, bucketRate * lift)) * 100) / 100;
+}
+
+/**
+ * Record a set of suggestions so feedback can be attributed to them
+ */
+export async function recordSuggestions(
+  userId: string,
+  suggestionId: string,
+  record: Omit<SuggestionRecord, 'createdAt' | 'expireAt'>
+): Promise<void> {
+  const now = Date.now();
+  await suggestionsRef(userId).doc(suggestionId).set({
+    ...record,
+    createdAt: now,
+    expireAt: Timestamp.fromMillis(now + SUGGESTION_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+  } as SuggestionRecord);
+}
+
+/**
+ * Share of `original` that was changed to get `sent` (normalized Levenshtein distance)
+ */
+function editRatio(original: string, sent: string): number {
+  const a = original.slice(0, MAX_EDIT_COMPARE_LENGTH);
+  const b = sent.slice(0, MAX_EDIT_COMPARE_LENGTH);
+  if (!a.length || !b.length) return a.length || b.length ? 1 : 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return Math.round((previous[b.length] / Math.max(a.length, b.length)) * 100) / 100;
+}
+
+/**
+ * Cloud Function: recordSmartReplyFeedback
+ *
+ * Records whether a suggested reply was sent as is, edited then sent, or
+ * dismissed. Each reply takes feedback once; repeats are ignored.
+ */
+export const recordSmartReplyFeedback = onCall<SmartReplyFeedbackRequest>(
+  {
+    memory: '256MiB',
+    timeoutSeconds: 30,
+    region: 'us-central1',
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const userId = request.auth.uid;
+    const { replyId, outcome, sentText } = request.data;
+
+    const parsed = typeof replyId === 'string' ? parseReplyId(replyId) : null;
+    if (!parsed) {
+      throw new HttpsError('invalid-argument', 'A valid replyId is required');
+    }
+    if (!OUTCOMES.includes(outcome)) {
+      throw new HttpsError('invalid-argument', `outcome must be one of ${OUTCOMES.join(', ')}`);
+    }
+    if (sentText !== undefined && typeof sentText !== 'string') {
+      throw new HttpsError('invalid-argument', 'sentText must be a string');
+    }
+
+    try {
+      const suggestionRef = suggestionsRef(userId).doc(parsed.suggestionId);
+      const feedbackRef = db.collection('users').doc(userId).collection('smartReplyFeedback').doc(replyId);
+
+      // Create the feedback record and count it in the stats together, once per reply
+      const feedback = await db.runTransaction(async (transaction) => {
+        const [suggestionDoc, feedbackDoc] = await Promise.all([
+          transaction.get(suggestionRef),
+          transaction.get(feedbackRef),
+        ]);
+
+        const suggestion = suggestionDoc.data() as SuggestionRecord | undefined;
+        const reply = suggestion?.replies[parsed.index];
+        if (!suggestion || !reply) {
+          throw new HttpsError('not-found', 'Smart reply not found');
+        }
+        if (feedbackDoc.exists) return null;
+
+        const record: FeedbackRecord = {
+          suggestionId: parsed.suggestionId,
+          replyIndex: parsed.index,
+          conversationId: suggestion.conversationId,
+          outcome,
+          category: reply.category,
+          language: suggestion.language,
+          modelConfidence: reply.modelConfidence,
+          confidence: reply.confidence,
+          userStyle: suggestion.userStyle,
+          ...(outcome === 'EDITED' && sentText ? { editRatio: editRatio(reply.replyText, sentText) } : {}),
+          createdAt: Date.now(),
+        };
+        transaction.set(feedbackRef, record);
+
+        const key = outcome.toLowerCase() as keyof OutcomeCounts;
+        transaction.set(statsShardRef(record.language, Math.floor(Math.random() * STATS_SHARDS)), {
+          categories: { [record.category]: { [key]: FieldValue.increment(1) } },
+          confidenceBuckets: { [confidenceBucket(record.modelConfidence)]: { [key]: FieldValue.increment(1) } },
+          updatedAt: FieldValue.serverTimestamp(),
+        }, { merge: true });
+        return record;
+      });
+
+      const response: SmartReplyFeedbackResponse = { replyId, recorded: feedback !== null };
+      return response;
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      console.error('Smart reply feedback error:', error);
+      throw new HttpsError('internal', 'Failed to record smart reply feedback');
+    }
+  }
+);
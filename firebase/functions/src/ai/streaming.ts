@@ -0,0 +1,166 @@
+/**
+ * Streaming Functions
+ *
+ * Server-sent event variants of translateMessage and generateSmartReplies for
+ * UIs that render text as it arrives. They share validation, rate limiting and
+ * caching with the callables (runTranslation / runSmartReplies).
+ *
+ * Request: POST with `Authorization: Bearer <Firebase ID token>` and the same
+ * JSON body as the callable's data. Events:
+ * - translation: `delta` { text }, `restart` {} (discard text so far), `done` { ...translateMessage result }
+ * - smart replies: `reply` { reply, index }, `done` { ...generateSmartReplies result }
+ * - `error` { status, message, details } if the request fails after the stream opened
+ *
+ * Errors before the first event are returned as a JSON error with the matching HTTP status.
+ */
+
+import { onRequest, HttpsError, Request } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import type { Response } from 'express';
+import { functionDeadline } from './providers';
+import { runTranslation } from './translation';
+import { runSmartReplies } from './smartReply';
+
+const STREAM_TRANSLATE_TIMEOUT_SECONDS = 60;
+const STREAM_SMART_REPLY_TIMEOUT_SECONDS = 120;
+
+/**
+ * Opens the event stream on the first event, so earlier failures can still
+ * use a plain HTTP error response. `signal` aborts if the client disconnects
+ * before the response ends, so the model stops generating for nobody.
+ */
+class EventStream {
+  private closed = false;
+  private readonly controller = new AbortController();
+  readonly signal = this.controller.signal;
+
+  constructor(private readonly res: Response) {
+    // The response, not the request: the request closes as soon as its body has been read
+    res.on('close', () => {
+      this.closed = true;
+      if (!res.writableEnded) {
+        this.controller.abort(new HttpsError('cancelled', 'Client disconnected'));
+      }
+    });
+  }
+
+  send(event: string, data: unknown): void {
+    if (this.closed) return;
+
+    if (!this.res.headersSent) {
+      this.res.status(200).set({
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable proxy buffering
+      });
+      this.res.flushHeaders();
+    }
+
+    this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  end(result: unknown): void {
+    this.send('done', result);
+    if (!this.closed) this.res.end();
+  }
+
+  fail(error: unknown): void {
+    const httpsError = error instanceof HttpsError
+      ? error
+      : new HttpsError('internal', 'Streaming request failed');
+
+    if (this.res.headersSent) {
+      this.send('error', httpsError.toJSON());
+      if (!this.closed) this.res.end();
+    } else {
+      this.res.status(httpsError.httpErrorCode.status).json({ error: httpsError.toJSON() });
+    }
+  }
+}
+
+/**
+ * Verify the Firebase ID token in the Authorization header; returns the uid
+ */
+async function authenticate(req: Request): Promise<string> {
+  const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+  if (!match) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  try {
+    const decoded = await getAuth().verifyIdToken(match[1]);
+    return decoded.uid;
+  } catch (error) {
+    throw new HttpsError('unauthenticated', 'Invalid or expired ID token');
+  }
+}
+
+function requestBody<T>(req: Request): T {
+  if (req.method !== 'POST') {
+    throw new HttpsError('invalid-argument', 'Use POST with a JSON body');
+  }
+  if (!req.body || typeof req.body !== 'object') {
+    throw new HttpsError('invalid-argument', 'Request body must be a JSON object');
+  }
+  return req.body as T;
+}
+
+/**
+ * Stream a translation as it's generated
+ */
+export const streamTranslation = onRequest(
+  {
+    memory: '512MiB',
+    timeoutSeconds: STREAM_TRANSLATE_TIMEOUT_SECONDS,
+    region: 'us-central1',
+    cors: true,
+  },
+  async (req, res) => {
+    const startedAt = Date.now();
+    const deadline = functionDeadline(STREAM_TRANSLATE_TIMEOUT_SECONDS, startedAt);
+    const stream = new EventStream(res);
+
+    try {
+      const userId = await authenticate(req);
+      const result = await runTranslation(userId, requestBody(req), startedAt, deadline, {
+        onDelta: (text) => stream.send('delta', { text }),
+        onRestart: () => stream.send('restart', {}),
+        signal: stream.signal,
+      });
+      stream.end(result);
+    } catch (error) {
+      console.error('Streaming translation error:', error);
+      stream.fail(error);
+    }
+  }
+);
+
+/**
+ * Stream smart reply suggestions one at a time
+ */
+export const streamSmartReplies = onRequest(
+  {
+    memory: '1GiB',
+    timeoutSeconds: STREAM_SMART_REPLY_TIMEOUT_SECONDS,
+    region: 'us-central1',
+    cors: true,
+  },
+  async (req, res) => {
+    const startedAt = Date.now();
+    const deadline = functionDeadline(STREAM_SMART_REPLY_TIMEOUT_SECONDS, startedAt);
+    const stream = new EventStream(res);
+
+    try {
+      const userId = await authenticate(req);
+      let index = 0;
+      const result = await runSmartReplies(userId, requestBody(req), startedAt, deadline, (reply) => {
+        stream.send('reply', { reply, index: index++ });
+      }, stream.signal);
+      stream.end(result);
+    } catch (error) {
+      console.error('Streaming smart reply error:', error);
+      stream.fail(error);
+    }
+  }
+);
@@ -0,0 +1,142 @@
+/**
+ * Structured Output Module
+ *
+ * JSON and function-call model calls validated against a runtime schema
+ * (utils/schema). Output with issues gets one repair retry that shows the
+ * model its answer and what was wrong with it; if the retry is still
+ * imperfect, the valid remainder (with defaults filled in) is used.
+ */
+
+import { getAIProvider, parseJson, ChatMessage, ChatRequest, FunctionCallRequest } from './providers';
+import { Schema, ValidationResult, validate } from '../utils/schema';
+
+// Issues listed in a repair prompt; more just repeat the same mistake
+const MAX_REPAIR_ISSUES = 10;
+
+/**
+ * Output that was still unusable after the repair retry
+ */
+export class InvalidOutputError extends Error {
+  constructor(feature: string, readonly issues: string[]) {
+    super(`${feature} output failed validation: ${issues.slice(0, MAX_REPAIR_ISSUES).join('; ')}`);
+    this.name = 'InvalidOutputError';
+  }
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  issues: string[]; // Problems remaining in the output that was used
+  repaired: boolean; // A repair retry was made
+}
+
+/**
+ * Messages asking the model to fix its previous answer
+ */
+function repairMessages(raw: string | null, issues: string[]): ChatMessage[] {
+  const listed = issues.slice(0, MAX_REPAIR_ISSUES).join('; ');
+  return [
+    ...(raw !== null ? [{ role: 'assistant' as const, content: raw }] : []),
+    {
+      role: 'user',
+      content: `Your previous response did not match the required format (${listed}). Return the complete, corrected JSON only.`,
+    },
+  ];
+}
+
+/**
+ * Validate model output; a SyntaxError from parsing counts as an issue
+ */
+async function attempt<T>(
+  call: () => Promise<{ data: unknown; raw: string }>,
+  schema: Schema<T>
+): Promise<ValidationResult<T> & { raw: string | null }> {
+  try {
+    const { data, raw } = await call();
+    return { ...validate(schema, data), raw };
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return { value: undefined, issues: ['$: response is not valid JSON'], raw: null };
+  }
+}
+
+/**
+ * Parse and validate raw JSON text (e.g. a streamed completion)
+ */
+export function validateJson<T>(raw: string, schema: Schema<T>): ValidationResult<T> {
+  try {
+    return validate(schema, parseJson(raw));
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return { value: undefined, issues: ['$: response is not valid JSON'] };
+  }
+}
+
+/**
+ * Pick the better of two validation results; throw if neither is usable
+ */
+function settle<T>(feature: string, first: ValidationResult<T>, retry: ValidationResult<T>): StructuredResult<T> {
+  const chosen = retry.value !== undefined && (first.value === undefined || retry.issues.length <= first.issues.length)
+    ? retry
+    : first;
+
+  if (chosen.value === undefined) {
+    throw new InvalidOutputError(feature, chosen.issues);
+  }
+  if (chosen.issues.length > 0) {
+    console.warn(`${feature} output still has ${chosen.issues.length} issues after repair: ${chosen.issues.slice(0, MAX_REPAIR_ISSUES).join('; ')}`);
+  }
+  return { data: chosen.value, issues: chosen.issues, repaired: true };
+}
+
+/**
+ * chatJson with schema validation and one repair retry
+ */
+export async function chatJsonValidated<T>(request: ChatRequest, schema: Schema<T>): Promise<StructuredResult<T>> {
+  const provider = getAIProvider();
+  const first = await attempt(() => provider.chatJson(request), schema);
+  if (first.issues.length === 0 && first.value !== undefined) {
+    return { data: first.value, issues: [], repaired: false };
+  }
+
+  console.warn(`${request.feature} output failed validation, repairing: ${first.issues.slice(0, MAX_REPAIR_ISSUES).join('; ')}`);
+  return repairJson(request, first.raw, first, schema);
+}
+
+/**
+ * Repair retry for output that was produced some other way (e.g. streamed);
+ * `first` is the validation result of `raw`
+ */
+export async function repairJson<T>(
+  request: ChatRequest,
+  raw: string | null,
+  first: ValidationResult<T>,
+  schema: Schema<T>
+): Promise<StructuredResult<T>> {
+  const retry = await attempt(() => getAIProvider().chatJson({
+    ...request,
+    messages: [...request.messages, ...repairMessages(raw, first.issues)],
+  }), schema);
+
+  return settle(request.feature, first, retry);
+}
+
+/**
+ * callFunction with schema validation of the arguments and one repair retry
+ */
+export async function callFunctionValidated<T>(
+  request: FunctionCallRequest,
+  schema: Schema<T>
+): Promise<StructuredResult<T>> {
+  const provider = getAIProvider();
+  const call = (messages: ChatMessage[]) => provider.callFunction({ ...request, messages })
+    .then(({ arguments: data, raw }) => ({ data, raw }));
+
+  const first = await attempt(() => call(request.messages), schema);
+  if (first.issues.length === 0 && first.value !== undefined) {
+    return { data: first.value, issues: [], repaired: false };
+  }
+
+  console.warn(`${request.feature} arguments failed validation, repairing: ${first.issues.slice(0, MAX_REPAIR_ISSUES).join('; ')}`);
+  const retry = await attempt(() => call([...request.messages, ...repairMessages(first.raw, first.issues)]), schema);
+  return settle(request.feature, first, retry);
+}
@@ -0,0 +1,280 @@
+/**
+ * Style Profile Module
+ *
+ * Per-user communication style for smart replies, learned across all
+ * conversations. onMessageCreated folds every text message the user sends into
+ * decayed running counts (users/{uid}/aiProfiles/smartReplyStyle), so the
+ * profile follows how the user writes now. generateSmartReplies blends it with
+ * the user's messages in the current conversation and applies any explicit
+ * per-conversation overrides (users/{uid}/conversationSettings/{id}.smartReplyStyle).
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { validate, object, optional, oneOf, number, boolean } from '../utils/schema';
+
+const db = getFirestore();
+
+const PROFILE_ID = 'smartReplyStyle';
+
+// Existing counts are scaled by this per new message (~50-message memory)
+const DECAY = 0.98;
+
+// The profile counts as at most this many messages when blended with the
+// conversation, so a few messages in a chat already shift the style
+const PROFILE_BLEND_WEIGHT = 20;
+
+// Phrase counts kept in the profile, and the decayed count below which one is dropped
+const MAX_TRACKED_PHRASES = 50;
+const MIN_PHRASE_COUNT = 0.5;
+
+// Profile phrases are shown to the model in other conversations, so only
+// plain words are kept: no numbers, links, handles or long tokens
+const PHRASE_WORD_REGEX = /^[\p{L}']{1,15}$/u;
+
+// Bigram occurrences (after blending) before a phrase counts as common
+const MIN_COMMON_PHRASE_COUNT = 3;
+
+export interface UserCommunicationStyle {
+  avgMessageLength: number; // words
+  emojiUsage: 'FREQUENT' | 'OCCASIONAL' | 'RARE';
+  tone: 'CASUAL' | 'CONVERSATIONAL' | 'FORMAL';
+  commonPhrases: string[];
+  usesContractions: boolean;
+  punctuationStyle: string; // 'minimal', 'standard', 'expressive'
+}
+
+/**
+ * Summable style signals over a set of messages (decayed counts in the profile)
+ */
+interface StyleStats {
+  messages: number;
+  words: number;
+  emojis: number;
+  contractions: number;
+  exclamations: number;
+  questions: number;
+  multiPunctuation: number;
+  phrases: Record<string, number>; // Lowercased bigram -> occurrences
+}
+
+/**
+ * users/{uid}/aiProfiles/smartReplyStyle
+ */
+interface StyleProfileDoc extends StyleStats {
+  updatedAt: number;
+}
+
+/**
+ * `smartReplyStyle` field on users/{uid}/conversationSettings/{conversationId}
+ */
+type StyleOverrides = Partial<Omit<UserCommunicationStyle, 'commonPhrases'>>;
+
+// Client-written, so validated like model output
+const STYLE_OVERRIDES_SCHEMA = object<StyleOverrides>({
+  avgMessageLength: optional(number({ min: 1, max: 100 })),
+  emojiUsage: optional(oneOf(['FREQUENT', 'OCCASIONAL', 'RARE'] as const)),
+  tone: optional(oneOf(['CASUAL', 'CONVERSATIONAL', 'FORMAL'] as const)),
+  usesContractions: optional(boolean()),
+  punctuationStyle: optional(oneOf(['minimal', 'standard', 'expressive'] as const)),
+});
+
+const DEFAULT_STYLE: UserCommunicationStyle = {
+  avgMessageLength: 10,
+  emojiUsage: 'OCCASIONAL',
+  tone: 'CONVERSATIONAL',
+  commonPhrases: [],
+  usesContractions: true,
+  punctuationStyle: 'standard',
+};
+
+const EMOJI_REGEX = /[\p{Emoji_Presentation}\p{Emoji}\u200D]/gu;
+const CONTRACTION_REGEX = /\b(can't|won't|don't|didn't|isn't|aren't|wasn't|weren't|haven't|hasn't|hadn't|wouldn't|shouldn't|couldn't|I'm|you're|he's|she's|it's|we're|they're|I've|you've|we've|they've|I'll|you'll|he'll|she'll|we'll|they'll)\b/gi;
+
+function emptyStats(): StyleStats {
+  return { messages: 0, words: 0, emojis: 0, contractions: 0, exclamations: 0, questions: 0, multiPunctuation: 0, phrases: {} };
+}
+
+/**
+ * Style signals of the given message texts
+ */
+export function collectStyleStats(texts: string[]): StyleStats {
+  const stats = emptyStats();
+  texts.filter(Boolean).forEach((text) => {
+    stats.messages++;
+    stats.words += text.split(/\s+/).length;
+    stats.emojis += (text.match(EMOJI_REGEX) || []).length;
+    stats.contractions += (text.match(CONTRACTION_REGEX) || []).length;
+    stats.exclamations += (text.match(/!/g) || []).length;
+    stats.questions += (text.match(/\?/g) || []).length;
+    stats.multiPunctuation += (text.match(/[!?]{2,}|\.{3,}/g) || []).length;
+
+    // Punctuation around a word doesn't make it a different phrase
+    const words = text.toLowerCase().split(/\s+/).map((word) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''));
+    for (let i = 0; i < words.length - 1; i++) {
+      if (!words[i] || !words[i + 1]) continue;
+      const phrase = `${words[i]} ${words[i + 1]}`;
+      stats.phrases[phrase] = (stats.phrases[phrase] || 0) + 1;
+    }
+  });
+  return stats;
+}
+
+/**
+ * Phrases safe to carry into other conversations' prompts
+ */
+function shareablePhrases(phrases: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(phrases).filter(([phrase]) => phrase.split(' ').every((word) => PHRASE_WORD_REGEX.test(word)))
+  );
+}
+
+/**
+ * a - b field by field, never below zero
+ */
+function subtractStats(a: StyleStats, b: StyleStats): StyleStats {
+  const phrases: Record<string, number> = {};
+  Object.entries(a.phrases || {}).forEach(([phrase, count]) => {
+    const remaining = count - (b.phrases[phrase] || 0);
+    if (remaining > 0) phrases[phrase] = remaining;
+  });
+
+  return {
+    messages: Math.max(0, (a.messages || 0) - b.messages),
+    words: Math.max(0, (a.words || 0) - b.words),
+    emojis: Math.max(0, (a.emojis || 0) - b.emojis),
+    contractions: Math.max(0, (a.contractions || 0) - b.contractions),
+    exclamations: Math.max(0, (a.exclamations || 0) - b.exclamations),
+    questions: Math.max(0, (a.questions || 0) - b.questions),
+    multiPunctuation: Math.max(0, (a.multiPunctuation || 0) - b.multiPunctuation),
+    phrases,
+  };
+}
+
+/**
+ * a * aWeight + b, field by field
+ */
+function combineStats(a: StyleStats, aWeight: number, b: StyleStats): StyleStats {
+  const phrases: Record<string, number> = { ...b.phrases };
+  Object.entries(a.phrases || {}).forEach(([phrase, count]) => {
+    phrases[phrase] = (phrases[phrase] || 0) + count * aWeight;
+  });
+
+  return {
+    messages: (a.messages || 0) * aWeight + b.messages,
+    words: (a.words || 0) * aWeight + b.words,
+    emojis: (a.emojis || 0) * aWeight + b.emojis,
+    contractions: (a.contractions || 0) * aWeight + b.contractions,
+    exclamations: (a.exclamations || 0) * aWeight + b.exclamations,
+    questions: (a.questions || 0) * aWeight + b.questions,
+    multiPunctuation: (a.multiPunctuation || 0) * aWeight + b.multiPunctuation,
+    phrases,
+  };
+}
+
+/**
+ * Derive a communication style from style signals; the default style if there are none
+ */
+export function styleFromStats(stats: StyleStats): UserCommunicationStyle {
+  if (stats.messages < 1) {
+    return { ...DEFAULT_STYLE };
+  }
+
+  // Average message length (in words)
+  const avgMessageLength = Math.round(stats.words / stats.messages);
+
+  const emojisPerMessage = stats.emojis / stats.messages;
+  const emojiUsage = emojisPerMessage > 2 ? 'FREQUENT' : emojisPerMessage > 0.5 ? 'OCCASIONAL' : 'RARE';
+
+  // Contractions are indicative of casual tone
+  const usesContractions = stats.contractions > stats.messages * 0.2; // 20% threshold
+
+  const punctuationStyle =
+    stats.multiPunctuation > stats.messages * 0.3 ? 'expressive' :
+    stats.exclamations + stats.questions < stats.messages * 0.1 ? 'minimal' :
+    'standard';
+
+  // Determine overall tone
+  const isShortMessages = avgMessageLength < 8;
+  const tone =
+    (!usesContractions && punctuationStyle === 'standard' && emojiUsage === 'RARE') ? 'FORMAL' :
+    (usesContractions && (isShortMessages || emojiUsage === 'FREQUENT')) ? 'CASUAL' :
+    'CONVERSATIONAL';
+
+  // Top 5 repeated 2-word sequences
+  const commonPhrases = Object.entries(stats.phrases)
+    .filter(([_, count]) => count >= MIN_COMMON_PHRASE_COUNT)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([phrase]) => phrase);
+
+  return {
+    avgMessageLength,
+    emojiUsage,
+    tone,
+    commonPhrases,
+    usesContractions,
+    punctuationStyle,
+  };
+}
+
+/**
+ * Fold a message the user sent into their style profile (called by onMessageCreated)
+ */
+export async function updateStyleProfile(userId: string, text: string): Promise<void> {
+  const profileRef = db.collection('users').doc(userId).collection('aiProfiles').doc(PROFILE_ID);
+
+  await db.runTransaction(async (transaction) => {
+    const profileDoc = await transaction.get(profileRef);
+    const current = (profileDoc.data() as StyleProfileDoc | undefined) || emptyStats();
+    const updated = combineStats(current, DECAY, collectStyleStats([text]));
+
+    // Keep the profile document bounded, and free of anything that looks private
+    updated.phrases = Object.fromEntries(
+      Object.entries(shareablePhrases(updated.phrases))
+        .filter(([_, count]) => count >= MIN_PHRASE_COUNT)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_TRACKED_PHRASES)
+    );
+
+    transaction.set(profileRef, { ...updated, updatedAt: Date.now() } as StyleProfileDoc);
+  });
+}
+
+/**
+ * The user's style for a conversation: their profile blended with their
+ * messages in the conversation, then the conversation's explicit overrides
+ */
+export async function resolveUserStyle(
+  userId: string,
+  conversationId: string,
+  conversationTexts: string[]
+): Promise<UserCommunicationStyle> {
+  const userRef = db.collection('users').doc(userId);
+  const [profileDoc, settingsDoc] = await Promise.all([
+    userRef.collection('aiProfiles').doc(PROFILE_ID).get(),
+    userRef.collection('conversationSettings').doc(conversationId).get(),
+  ]);
+
+  const storedProfile = profileDoc.data() as StyleProfileDoc | undefined;
+  const conversationStats = collectStyleStats(conversationTexts);
+
+  // The profile already folded in these messages; take them out (approximately,
+  // they were decayed since) so the conversation isn't counted twice. Profiles
+  // stored before phrases were filtered are filtered here too.
+  const profile = storedProfile
+    ? subtractStats({ ...storedProfile, phrases: shareablePhrases(storedProfile.phrases || {}) }, conversationStats)
+    : undefined;
+  const stats = profile?.messages
+    ? combineStats(profile, Math.min(1, PROFILE_BLEND_WEIGHT / profile.messages), conversationStats)
+    : conversationStats;
+
+  const rawOverrides = settingsDoc.data()?.smartReplyStyle;
+  const { value: overrides, issues } = rawOverrides
+    ? validate(STYLE_OVERRIDES_SCHEMA, rawOverrides)
+    : { value: undefined, issues: [] };
+  if (issues.length > 0) {
+    console.warn(`Ignoring invalid smart reply style overrides for ${userId}/${conversationId}: ${issues.join('; ')}`);
+  }
+
+  return { ...styleFromStats(stats), ...overrides };
+}
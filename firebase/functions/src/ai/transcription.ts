@@ -1,11 +1,12 @@
 /**
  * Audio Transcription Functions
  * 
- * Provides voice message transcription using OpenAI Whisper API
+ * Provides voice message transcription using Whisper via the AI provider
  */
 
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
-import { openai } from '../utils/openai';
+import { MODELS } from '../utils/openai';
+import { getAIProvider, functionDeadline } from './providers';
 import { checkRateLimit } from '../utils/rateLimit';
 import * as admin from 'firebase-admin';
 import axios from 'axios';
@@ -14,6 +15,8 @@ import { join } from 'path';
 import { writeFile, unlink } from 'fs/promises';
 import { randomBytes } from 'crypto';
 
+const TRANSCRIBE_TIMEOUT_SECONDS = 120;
+
 interface TranscriptionRequest {
   audioUrl: string;
   messageId: string;
@@ -25,10 +28,12 @@ interface TranscriptionRequest {
 export const transcribeVoiceMessage = onCall<TranscriptionRequest>(
   {
     memory: '1GiB',
-    timeoutSeconds: 120,
+    timeoutSeconds: TRANSCRIBE_TIMEOUT_SECONDS,
     region: 'us-central1',
   },
   async (request) => {
+    const deadline = functionDeadline(TRANSCRIBE_TIMEOUT_SECONDS);
+
     // Verify authentication
     if (!request.auth) {
       throw new HttpsError('unauthenticated', 'User must be authenticated');
@@ -44,11 +49,8 @@ export const transcribeVoiceMessage = onCall<TranscriptionRequest>(
     let tempFilePath: string | null = null;
 
     try {
-      // Check rate limit (50 transcriptions per hour)
-      await checkRateLimit(request.auth.uid, 'transcription', {
-        maxRequests: 50,
-        windowMinutes: 60,
-      });
+      // Check rate limit (free plan: 50 transcriptions per hour)
+      await checkRateLimit(request.auth.uid, 'transcription');
 
       console.log(`Transcribing audio for message ${messageId}...`);
 
@@ -70,22 +72,24 @@ export const transcribeVoiceMessage = onCall<TranscriptionRequest>(
 
       console.log(`Audio file downloaded to ${tempFilePath}`);
 
-      // Call OpenAI Whisper API
-      const fs = require('fs');
-      const transcription = await openai.audio.transcriptions.create({
-        file: fs.createReadStream(tempFilePath),
-        model: 'whisper-1',
+      // Call Whisper
+      const transcription = await getAIProvider().transcribe({
+        feature: 'transcription',
+        deadline,
+        userId: request.auth.uid,
+        filePath: tempFilePath,
+        model: MODELS.TRANSCRIPTION,
         language: undefined, // Auto-detect language
-        response_format: 'json',
         temperature: 0.2, // Lower temperature for more consistent transcriptions
       });
+      const language = transcription.language || 'unknown';
 
       console.log('Transcription completed successfully');
 
       // Store transcription in Firestore for caching
       const transcriptionData = {
         text: transcription.text,
-        language: 'unknown', // Whisper doesn't return language in all response formats
+        language,
         messageId,
         userId: request.auth.uid,
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
@@ -104,7 +108,7 @@ export const transcribeVoiceMessage = onCall<TranscriptionRequest>(
 
       return {
         text: transcription.text,
-        language: 'unknown', // Whisper doesn't return language in all response formats
+        language,
         messageId,
       };
     } catch (error: any) {
@@ -119,8 +123,8 @@ export const transcribeVoiceMessage = onCall<TranscriptionRequest>(
         }
       }
 
-      // Re-throw rate limit errors
-      if (error.code === 'resource-exhausted') {
+      // Re-throw rate limit, deadline and unavailable errors
+      if (error instanceof HttpsError) {
         throw error;
       }
 
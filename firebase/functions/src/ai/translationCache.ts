@@ -0,0 +1,180 @@
+/**
+ * Translation Cache
+ *
+ * Translations are keyed on normalized text, resolved source language, target
+ * language and formality, under a namespace that includes the model and prompt
+ * version, so a model or prompt change never serves stale entries.
+ *
+ * Migration: entries in the legacy `translations` collection (keyed only on
+ * text + target) are read through on a miss when their recorded source
+ * language matches, copied into the new cache, and otherwise left to expire
+ * via the TTL policy on their `expiresAt` field.
+ */
+
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import * as crypto from 'crypto';
+import { MODELS } from '../utils/openai';
+import { cacheGet, cacheGetMany, cacheSet, buildCacheKey, CacheNamespace } from '../utils/cache';
+
+const db = getFirestore();
+
+export type Formality = 'casual' | 'neutral' | 'formal';
+
+export const TRANSLATION_PROMPT_VERSION = '3';
+
+const TRANSLATION_CACHE: CacheNamespace = {
+  feature: 'translation',
+  model: MODELS.TRANSLATION,
+  promptVersion: TRANSLATION_PROMPT_VERSION,
+  ttlDays: 30,
+};
+
+// Below this length a source-agnostic ('auto') entry may be a homograph in another language
+const MIN_LENGTH_FOR_AUTO_SOURCE = 20;
+
+// The prompt and model legacy `translations` entries were produced with
+const LEGACY_MODEL = 'gpt-4-turbo-preview';
+
+export interface TranslationCacheKey {
+  sourceLanguage: string; // Resolved language code, or 'auto' if unknown
+  targetLanguage: string;
+  formality?: Formality;
+  context?: string; // Digest of the conversation context, for conversation-aware translations
+}
+
+export interface CachedTranslation {
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  qualityScore?: number; // Set when the translation passed verification
+}
+
+/**
+ * Canonical form of a language code for keying: lowercase, '-' separated
+ */
+export function normalizeLanguageCode(code: string | undefined | null): string {
+  const normalized = (code || '').trim().toLowerCase().replace(/_/g, '-');
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/.test(normalized) ? normalized : 'auto';
+}
+
+function keyFor(text: string, key: TranslationCacheKey): string {
+  return buildCacheKey(TRANSLATION_CACHE, text, {
+    sourceLanguage: normalizeLanguageCode(key.sourceLanguage),
+    targetLanguage: normalizeLanguageCode(key.targetLanguage),
+    formality: key.formality || 'neutral',
+    // Only present when set, so context-free keys are unchanged
+    ...(key.context ? { context: key.context } : {}),
+  });
+}
+
+/**
+ * Get cached translation
+ *
+ * Falls back to an entry translated without a known source ('auto') for texts
+ * long enough not to be ambiguous, then to the legacy collection.
+ */
+export async function getCachedTranslation(
+  text: string,
+  key: TranslationCacheKey
+): Promise<CachedTranslation | null> {
+  const cached = await cacheGet<CachedTranslation>(TRANSLATION_CACHE, keyFor(text, key));
+  if (cached) return cached;
+
+  const sourceLanguage = normalizeLanguageCode(key.sourceLanguage);
+  if (sourceLanguage !== 'auto' && text.trim().length >= MIN_LENGTH_FOR_AUTO_SOURCE) {
+    const auto = await cacheGet<CachedTranslation>(TRANSLATION_CACHE, keyFor(text, { ...key, sourceLanguage: 'auto' }));
+    if (auto) return auto;
+  }
+
+  return migrateLegacyTranslation(text, key);
+}
+
+/**
+ * Batched form of getCachedTranslation (one Firestore read for all texts)
+ *
+ * Applies the same 'auto' fallback; legacy entries are not consulted.
+ * Results are in input order, null for misses.
+ */
+export async function getCachedTranslations(
+  items: Array<{ text: string; key: TranslationCacheKey }>
+): Promise<Array<CachedTranslation | null>> {
+  const candidates = items.map(({ text, key }) => {
+    const keys = [keyFor(text, key)];
+    if (normalizeLanguageCode(key.sourceLanguage) !== 'auto' && text.trim().length >= MIN_LENGTH_FOR_AUTO_SOURCE) {
+      keys.push(keyFor(text, { ...key, sourceLanguage: 'auto' }));
+    }
+    return keys;
+  });
+
+  const found = await cacheGetMany<CachedTranslation>(TRANSLATION_CACHE, candidates.flat());
+  return candidates.map((keys) => {
+    const hit = keys.find((key) => found.has(key));
+    return hit ? found.get(hit)! : null;
+  });
+}
+
+/**
+ * Cache a translation, with its quality score if it was verified. Entries
+ * keyed by source 'auto' should pass the `sourceLanguage` the model detected,
+ * so a cache hit reports the same source as the original call.
+ */
+export function cacheTranslation(
+  text: string,
+  translatedText: string,
+  key: TranslationCacheKey,
+  userId: string,
+  details: { qualityScore?: number; sourceLanguage?: string } = {}
+): Promise<void> {
+  const { qualityScore, sourceLanguage = key.sourceLanguage } = details;
+  return cacheSet<CachedTranslation>(
+    TRANSLATION_CACHE,
+    keyFor(text, key),
+    {
+      translatedText,
+      sourceLanguage: normalizeLanguageCode(sourceLanguage),
+      targetLanguage: key.targetLanguage,
+      ...(qualityScore !== undefined ? { qualityScore } : {}),
+    },
+    { userId, formality: key.formality || 'neutral' }
+  );
+}
+
+/**
+ * Read-through migration of a legacy `translations` document
+ *
+ * Only neutral-formality lookups without conversation context qualify (legacy
+ * translations had neither), the legacy entry must record the same source language, and the
+ * current model must still be the one that produced it.
+ */
+async function migrateLegacyTranslation(
+  text: string,
+  key: TranslationCacheKey
+): Promise<CachedTranslation | null> {
+  const sourceLanguage = normalizeLanguageCode(key.sourceLanguage);
+  if ((key.formality && key.formality !== 'neutral') || key.context || sourceLanguage === 'auto' || MODELS.TRANSLATION !== LEGACY_MODEL) {
+    return null;
+  }
+
+  try {
+    const legacyKey = crypto.createHash('sha256').update([text, key.targetLanguage].join('|')).digest('hex');
+    const legacyDoc = await db.collection('translations').doc(legacyKey).get();
+    const legacy = legacyDoc.data();
+    if (!legacy?.translatedText || legacy.originalText !== text) return null;
+
+    const expiresAt = legacy.expiresAt instanceof Timestamp ? legacy.expiresAt.toMillis() : 0;
+    if (expiresAt <= Date.now() || normalizeLanguageCode(legacy.sourceLanguage) !== sourceLanguage) {
+      return null;
+    }
+
+    const migrated: CachedTranslation = {
+      translatedText: legacy.translatedText,
+      sourceLanguage,
+      targetLanguage: key.targetLanguage,
+    };
+    await cacheTranslation(text, migrated.translatedText, key, legacy.userId || 'legacy');
+    return migrated;
+  } catch (error) {
+    console.error('Legacy translation lookup error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Translation Context Module
+ *
+ * Conversation-aware translation: the messages preceding the one being
+ * translated (so pronouns and references resolve) and the conversation's
+ * glossary of do-not-translate terms and preferred renderings, which is
+ * enforced in the prompt and verified in the output.
+ *
+ * Glossary sources on the conversation document:
+ * - `glossary`: [{ term, doNotTranslate?, renderings?: { [languageCode]: text } }]
+ * - `nicknames`: { [userId]: nickname } - always kept as written
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, DocumentData } from 'firebase-admin/firestore';
+import * as crypto from 'crypto';
+import { normalizeLanguageCode } from './translationCache';
+import { untrusted, promptValue } from './promptBuilder';
+
+const db = getFirestore();
+
+const CONTEXT_MESSAGES = 8;
+const CONTEXT_MESSAGE_MAX_CHARS = 500;
+const MAX_GLOSSARY_ENTRIES = 50;
+
+// Scripts written with spaces between words, where a term must not be part of a longer word
+const WORD_BOUNDARY_CHAR = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{N}]/u;
+
+interface StoredGlossaryEntry {
+  term?: string;
+  doNotTranslate?: boolean;
+  renderings?: Record<string, string>;
+}
+
+export interface GlossaryEntry {
+  term: string;
+  rendering: string; // Equal to term for do-not-translate entries
+}
+
+export interface TranslationContext {
+  precedingMessages: string[]; // 'Speaker: text', oldest first
+  glossary: GlossaryEntry[];
+  digest: string; // Identifies the context for cache keying
+}
+
+/**
+ * Load the context for translating text in a conversation into targetLanguage
+ *
+ * Throws HttpsError if the conversation doesn't exist or the user isn't a
+ * participant. With `messageId`, context is the messages before that one;
+ * otherwise the latest messages.
+ */
+export async function loadTranslationContext(
+  conversationId: string,
+  userId: string,
+  targetLanguage: string,
+  messageId?: string
+): Promise<TranslationContext> {
+  const conversationRef = db.collection('conversations').doc(conversationId);
+  const conversationDoc = await conversationRef.get();
+  if (!conversationDoc.exists) {
+    throw new HttpsError('not-found', 'Conversation not found');
+  }
+
+  const conversation = conversationDoc.data() || {};
+  const participants: string[] = conversation.participants || [];
+  if (!participants.includes(userId)) {
+    throw new HttpsError('permission-denied', 'User is not a participant in this conversation');
+  }
+
+  let query = conversationRef
+    .collection('messages')
+    .where('type', '==', 'TEXT')
+    .orderBy('timestamp', 'desc');
+
+  if (messageId) {
+    const anchor = await conversationRef.collection('messages').doc(messageId).get();
+    if (!anchor.exists) {
+      throw new HttpsError('not-found', 'Message not found');
+    }
+    query = query.where('timestamp', '<', anchor.data()?.timestamp || Date.now());
+  }
+
+  const snapshot = await query.limit(CONTEXT_MESSAGES).get();
+  const precedingMessages = snapshot.docs
+    .map((doc) => doc.data())
+    .filter((message) => message.text)
+    .reverse()
+    .map((message) => `${speakerLabel(message.senderId, participants, conversation)}: ${message.text.slice(0, CONTEXT_MESSAGE_MAX_CHARS)}`);
+
+  const glossary = buildGlossary(conversation, targetLanguage);
+  const digest = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([precedingMessages, glossary]))
+    .digest('hex')
+    .slice(0, 32);
+
+  return { precedingMessages, glossary, digest };
+}
+
+function speakerLabel(senderId: string, participants: string[], conversation: DocumentData): string {
+  const nickname = conversation.nicknames?.[senderId];
+  if (typeof nickname === 'string' && nickname.trim()) return nickname.trim();
+
+  const index = participants.indexOf(senderId);
+  return index >= 0 ? `Participant ${index + 1}` : 'Participant';
+}
+
+/**
+ * Glossary entries that apply to the target language: nicknames and
+ * do-not-translate terms as written, plus renderings for this language
+ */
+function buildGlossary(conversation: DocumentData, targetLanguage: string): GlossaryEntry[] {
+  const target = normalizeLanguageCode(targetLanguage);
+  const entries = new Map<string, GlossaryEntry>();
+
+  const nicknames: Record<string, unknown> = conversation.nicknames || {};
+  Object.values(nicknames).forEach((nickname) => {
+    if (typeof nickname === 'string' && nickname.trim()) {
+      entries.set(nickname.trim().toLowerCase(), { term: nickname.trim(), rendering: nickname.trim() });
+    }
+  });
+
+  const stored: StoredGlossaryEntry[] = Array.isArray(conversation.glossary) ? conversation.glossary : [];
+  stored.forEach((entry) => {
+    const term = typeof entry?.term === 'string' ? entry.term.trim() : '';
+    if (!term) return;
+
+    const rendering = Object.entries(entry.renderings || {})
+      .find(([language]) => normalizeLanguageCode(language) === target)?.[1];
+
+    if (typeof rendering === 'string' && rendering.trim()) {
+      entries.set(term.toLowerCase(), { term, rendering: rendering.trim() });
+    } else if (entry.doNotTranslate) {
+      entries.set(term.toLowerCase(), { term, rendering: term });
+    }
+  });
+
+  return Array.from(entries.values()).slice(0, MAX_GLOSSARY_ENTRIES);
+}
+
+/**
+ * Prompt section describing the context and glossary rules that apply to `text`
+ */
+export function buildContextPrompt(context: TranslationContext, text: string): string {
+  const sections: string[] = [];
+
+  if (context.precedingMessages.length > 0) {
+    sections.push(
+      'Earlier messages in this conversation, for reference only (do not translate them):\n' +
+      untrusted('conversation', context.precedingMessages.join('\n'))
+    );
+  }
+
+  const applicable = applicableGlossary(context.glossary, text);
+  if (applicable.length > 0) {
+    sections.push(
+      'Glossary - these renderings are mandatory:\n' +
+      applicable
+        .map(({ term, rendering }) => term === rendering
+          ? `- "${promptValue(term)}": keep exactly as written, do not translate`
+          : `- "${promptValue(term)}": translate as "${promptValue(rendering)}"`)
+        .join('\n')
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Glossary entries whose term occurs in the source text
+ */
+export function applicableGlossary(glossary: GlossaryEntry[], text: string): GlossaryEntry[] {
+  return glossary.filter(({ term }) => containsTerm(text, term));
+}
+
+/**
+ * Glossary entries used in the source whose rendering is missing from the translation
+ */
+export function findGlossaryViolations(
+  glossary: GlossaryEntry[],
+  sourceText: string,
+  translatedText: string
+): GlossaryEntry[] {
+  return applicableGlossary(glossary, sourceText).filter(({ rendering }) => !containsTerm(translatedText, rendering));
+}
+
+/**
+ * Case-insensitive whole-term match. Terms in unspaced scripts (CJK, Thai...)
+ * are matched as substrings.
+ */
+function containsTerm(text: string, term: string): boolean {
+  const chars = Array.from(term);
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const before = WORD_BOUNDARY_CHAR.test(chars[0]) ? '(^|[^\\p{L}\\p{N}])' : '';
+  const after = WORD_BOUNDARY_CHAR.test(chars[chars.length - 1]) ? '($|[^\\p{L}\\p{N}])' : '';
+  return new RegExp(`${before}${escaped}${after}`, 'iu').test(text);
+}
@@ -0,0 +1,196 @@
+/**
+ * Translation Quality Module
+ *
+ * Optional verification for translateMessage. Local checks catch
+ * instruction-following failures (output in the wrong language, notes or
+ * commentary around the translation, the text returned untranslated); a model
+ * call back-translates the output and scores how faithfully it carries the
+ * original's meaning, and flags replies written instead of a translation.
+ */
+
+import { MODELS, CONFIGS } from '../utils/openai';
+import { chatJsonValidated, InvalidOutputError } from './structuredOutput';
+import { object, number, boolean, string, optional } from '../utils/schema';
+import { identifyLanguage } from '../utils/languageId';
+import { parseLanguageTag, sameLanguage } from '../utils/languageTags';
+import { untrusted, withUntrustedPolicy, promptValue } from './promptBuilder';
+import type { ModelCallOptions } from './translation';
+
+// Fidelity below this fails verification
+export const MIN_FIDELITY = 0.7;
+
+// Score ceiling for output that isn't a translation at all
+const FAILED_OUTPUT_SCORE = 0.2;
+
+// Sources shorter than this skip the length and unchanged-text checks
+const MIN_CHECK_LENGTH = 20;
+// Output this many times longer than the source suggests added commentary
+const MAX_LENGTH_RATIO = 3;
+
+// Preambles and notes a model adds around a translation
+const COMMENTARY_PATTERNS = [
+  /^\s*(here is|here's|sure|certainly|of course)\b[^\n]*\btranslat/i,
+  /^\s*translation\s*:/im,
+  /^\s*[([]?\s*(note|translator'?s note|n\.b\.)\s*[:)\]-]/im,
+];
+
+export type TranslationWarningCode =
+  | 'wrong-language' // Output isn't in the target language
+  | 'not-translated' // Output is the source text unchanged
+  | 'extra-commentary' // Notes, preambles or explanations around the translation
+  | 'answered-instead' // Output replies to the message rather than translating it
+  | 'low-fidelity' // Back-translation shows meaning lost or changed
+  | 'verification-unavailable'; // Fidelity couldn't be scored; only local checks ran
+
+export interface TranslationWarning {
+  code: TranslationWarningCode;
+  message: string;
+}
+
+export interface TranslationQuality {
+  qualityScore: number | null; // 0.0-1.0; null if it couldn't be scored
+  warnings: TranslationWarning[];
+  passed: boolean; // False if a retry is warranted
+}
+
+interface FidelityAssessment {
+  fidelity: number;
+  answered: boolean;
+  commentary: boolean;
+}
+
+const FIDELITY_SCHEMA = object<FidelityAssessment & { backTranslation?: string }>({
+  backTranslation: optional(string()),
+  fidelity: number({ min: 0, max: 1 }),
+  answered: boolean({ default: false }),
+  commentary: boolean({ default: false }),
+});
+
+/**
+ * Checks that need no model call
+ */
+export function checkTranslationOutput(
+  text: string,
+  translatedText: string,
+  sourceLanguage: string | undefined,
+  targetLanguage: string
+): TranslationWarning[] {
+  const warnings: TranslationWarning[] = [];
+  const source = text.trim();
+  const output = translatedText.trim();
+
+  // Only codes can be checked; callers may pass language names
+  const identified = parseLanguageTag(targetLanguage) ? identifyLanguage(output) : null;
+  if (identified?.reliable && identified.language && !sameLanguage(identified.language, targetLanguage)) {
+    warnings.push({
+      code: 'wrong-language',
+      message: `Translation appears to be in ${identified.tag}, not ${targetLanguage}`,
+    });
+  }
+
+  const sameAsSource = sourceLanguage && sameLanguage(sourceLanguage, targetLanguage);
+  if (!sameAsSource && source.length >= MIN_CHECK_LENGTH && output === source) {
+    warnings.push({ code: 'not-translated', message: 'Translation is identical to the original text' });
+  }
+
+  const addedCommentary = COMMENTARY_PATTERNS.some((pattern) => pattern.test(output) && !pattern.test(source));
+  const tooLong = source.length >= MIN_CHECK_LENGTH && output.length > source.length * MAX_LENGTH_RATIO;
+  if (addedCommentary || tooLong) {
+    warnings.push({
+      code: 'extra-commentary',
+      message: addedCommentary
+        ? 'Translation includes notes or a preamble'
+        : 'Translation is much longer than the original and may include commentary',
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Back-translate and score fidelity with the model; null if the call fails
+ */
+async function assessFidelity(
+  text: string,
+  translatedText: string,
+  sourceLanguage: string | undefined,
+  options: ModelCallOptions
+): Promise<FidelityAssessment | null> {
+  try {
+    const completion = await chatJsonValidated({
+      feature: 'translationQuality',
+      ...options,
+      model: MODELS.TRANSLATION,
+      messages: [
+        {
+          role: 'system',
+          content: withUntrustedPolicy(`You review translations. The <untrusted-review> tags hold an "original" text and its "translation". First translate "translation" back into ${sourceLanguage ? promptValue(sourceLanguage) : 'the language of "original"'} as literally as possible, then compare its meaning with "original".
+
+Return JSON: {"backTranslation": "<literal back-translation>", "fidelity": <0.0-1.0, how completely and accurately the meaning, tone and intent are preserved>, "answered": <true if "translation" responds to "original" instead of translating it>, "commentary": <true if "translation" adds notes, explanations or text that isn't in "original">}`),
+        },
+        {
+          role: 'user',
+          content: untrusted('review', JSON.stringify({ original: text, translation: translatedText })),
+        },
+      ],
+      temperature: CONFIGS.TRANSLATION_QUALITY.temperature,
+      maxTokens: CONFIGS.TRANSLATION_QUALITY.maxTokens,
+    }, FIDELITY_SCHEMA);
+
+    const { fidelity, answered, commentary } = completion.data;
+    return { fidelity, answered, commentary };
+  } catch (error) {
+    if (error instanceof InvalidOutputError) {
+      console.warn(`Translation quality check returned invalid output: ${error.message}`);
+    } else {
+      console.error('Translation quality check error:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Verify a translation: local checks plus a back-translation fidelity score
+ */
+export async function verifyTranslation(
+  text: string,
+  translatedText: string,
+  sourceLanguage: string | undefined,
+  targetLanguage: string,
+  options: ModelCallOptions = {}
+): Promise<TranslationQuality> {
+  const warnings = checkTranslationOutput(text, translatedText, sourceLanguage, targetLanguage);
+  const assessment = await assessFidelity(text, translatedText, sourceLanguage, options);
+
+  if (!assessment) {
+    warnings.push({
+      code: 'verification-unavailable',
+      message: 'Fidelity could not be scored; only local checks were applied',
+    });
+    return { qualityScore: null, warnings, passed: warnings.length === 1 };
+  }
+
+  if (assessment.answered) {
+    warnings.push({ code: 'answered-instead', message: 'Output responds to the message instead of translating it' });
+  }
+  if (assessment.commentary && !warnings.some((warning) => warning.code === 'extra-commentary')) {
+    warnings.push({ code: 'extra-commentary', message: 'Translation includes text that is not in the original' });
+  }
+  if (assessment.fidelity < MIN_FIDELITY) {
+    warnings.push({
+      code: 'low-fidelity',
+      message: `Back-translation preserves the meaning poorly (fidelity ${assessment.fidelity.toFixed(2)})`,
+    });
+  }
+
+  const notATranslation = warnings.some(({ code }) =>
+    code === 'wrong-language' || code === 'not-translated' || code === 'answered-instead'
+  );
+  const qualityScore = notATranslation ? Math.min(assessment.fidelity, FAILED_OUTPUT_SCORE) : assessment.fidelity;
+
+  return {
+    qualityScore: Math.round(qualityScore * 100) / 100,
+    warnings,
+    passed: warnings.length === 0,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Usage Quota Functions
+ *
+ * Lets the app show how many AI requests the user has left per feature and
+ * how much of their monthly spend cap is used
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getQuotaStatuses, getUserPlan, QuotaStatus } from '../utils/rateLimit';
+import { getMonthlySpend, MonthlySpend } from '../utils/usage';
+
+interface UsageQuotaResponse {
+  plan: string;
+  features: Record<string, QuotaStatus>;
+  monthlySpend: MonthlySpend;
+  checkedAt: number;
+}
+
+/**
+ * Remaining requests and reset time for each rate-limited feature
+ */
+export const getUsageQuota = onCall(
+  {
+    memory: '256MiB',
+    timeoutSeconds: 30,
+    region: 'us-central1',
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    try {
+      const plan = await getUserPlan(request.auth.uid);
+      const [statuses, monthlySpend] = await Promise.all([
+        getQuotaStatuses(request.auth.uid, plan),
+        getMonthlySpend(request.auth.uid, plan),
+      ]);
+
+      const features: UsageQuotaResponse['features'] = {};
+      for (const status of statuses) {
+        features[status.feature] = status;
+      }
+
+      const response: UsageQuotaResponse = {
+        plan,
+        features,
+        monthlySpend,
+        checkedAt: Date.now(),
+      };
+
+      return response;
+    } catch (error: any) {
+      console.error('Get usage quota error:', error);
+      throw new HttpsError('internal', 'Failed to load usage quota');
+    }
+  }
+);
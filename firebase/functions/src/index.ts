@@ -10,13 +10,20 @@ import * as admin from 'firebase-admin';
 admin.initializeApp();
 
 // Export all functions
-export { translateMessage, detectLanguage } from './ai/translation';
+export { translateMessage, translateMessages, detectLanguage } from './ai/translation';
 export { generateSmartReplies } from './ai/smartReply';
+export { recordSmartReplyFeedback } from './ai/smartReplyFeedback';
 export { getCulturalContext, adjustFormality } from './ai/culturalContext';
 export { extractIntelligentData, extractBatchData } from './ai/dataExtraction';
 export { transcribeVoiceMessage, getTranscription } from './ai/transcription';
+export { getUsageQuota } from './ai/usageQuota';
+export { streamTranslation, streamSmartReplies } from './ai/streaming';
 export { onMessageCreated } from './triggers/onMessageCreated';
 export { onMessageReactionAdded } from './triggers/onMessageReactionAdded';
+export { onMessageRead } from './triggers/onMessageRead';
+export { flushNotificationDigest } from './triggers/notificationDigest';
+export { rollupDailyUsage } from './triggers/rollupDailyUsage';
+export { reportCacheStats } from './triggers/reportCacheStats';
 
 // Health check function
 import { onRequest } from 'firebase-functions/v2/https';
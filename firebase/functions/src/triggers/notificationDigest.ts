@@ -0,0 +1,325 @@
+/**
+ * Notification Digest
+ *
+ * Coalesces bursts of messages and reactions per conversation and recipient
+ * into a single "Alex sent 5 messages" push
+ */
+
+import { onTaskDispatched } from 'firebase-functions/v2/tasks';
+import { getFirestore, FieldValue, DocumentReference } from 'firebase-admin/firestore';
+import { getFunctions } from 'firebase-admin/functions';
+import { getUserDeviceTokens, sendToDevices, silentPayload, withCollapseKey, withBadge } from '../utils/fcm';
+import { getRecipientSettings } from '../utils/notificationSettings';
+import { getBadgeCount } from '../utils/conversationSummary';
+
+const db = getFirestore();
+
+// The first event in a window is pushed immediately; later ones wait for the flush
+const DIGEST_WINDOW_MS = 20 * 1000;
+
+// A flush still pending this long after its window opened was lost (retries
+// exhausted or never dispatched); the next event reopens the window
+const STALE_FLUSH_MS = 3 * DIGEST_WINDOW_MS;
+
+const FLUSH_MAX_ATTEMPTS = 3;
+
+/**
+ * notificationDigests/{conversationId}_{recipientId}
+ */
+interface DigestBuffer {
+  conversationId: string;
+  recipientId: string;
+  windowStart: number;
+  pendingMessages: number;
+  pendingReactions: number;
+  senders: Record<string, string>; // userId -> display name
+  lastSenderId?: string;
+  lastMessageId?: string;
+  flushScheduled: boolean;
+}
+
+export interface DigestEvent {
+  kind: 'message' | 'reaction';
+  senderId: string;
+  senderName: string;
+  messageId: string;
+}
+
+/**
+ * Collapse key shared by every push for a conversation, so a digest replaces
+ * the individual notifications already on the device
+ */
+export function conversationCollapseKey(conversationId: string): string {
+  return `conversation_${conversationId}`;
+}
+
+/**
+ * Record a message or reaction for a recipient
+ *
+ * Returns false if the caller should push immediately (the event opened a new
+ * window), or true if it was buffered and will be delivered by the digest flush.
+ */
+export async function bufferForDigest(
+  conversationId: string,
+  recipientId: string,
+  event: DigestEvent
+): Promise<boolean> {
+  const bufferRef = db.collection('notificationDigests').doc(`${conversationId}_${recipientId}`);
+
+  try {
+    const result = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(bufferRef);
+      const buffer = doc.data() as DigestBuffer | undefined;
+      const now = Date.now();
+      const flushLost = buffer?.flushScheduled && now - buffer.windowStart > STALE_FLUSH_MS;
+      if (flushLost) {
+        console.warn(`Digest flush for ${conversationId}_${recipientId} never completed; reopening window`);
+      }
+
+      if (!buffer || flushLost || (!buffer.flushScheduled && now - buffer.windowStart >= DIGEST_WINDOW_MS)) {
+        // Quiet conversation: open a new window and let this event through
+        transaction.set(bufferRef, {
+          conversationId,
+          recipientId,
+          windowStart: now,
+          pendingMessages: 0,
+          pendingReactions: 0,
+          senders: {},
+          flushScheduled: false,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return { buffered: false, scheduleAt: null };
+      }
+
+      transaction.update(bufferRef, {
+        [event.kind === 'message' ? 'pendingMessages' : 'pendingReactions']: FieldValue.increment(1),
+        [`senders.${event.senderId}`]: event.senderName,
+        lastSenderId: event.senderId,
+        lastMessageId: event.messageId,
+        flushScheduled: true,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      return {
+        buffered: true,
+        scheduleAt: buffer.flushScheduled ? null : buffer.windowStart + DIGEST_WINDOW_MS,
+      };
+    });
+
+    if (result.scheduleAt != null) {
+      try {
+        await scheduleFlush(conversationId, recipientId, result.scheduleAt);
+      } catch (error) {
+        // Without a scheduled flush the buffer would never drain - push now instead
+        console.error(`Failed to schedule digest flush for ${recipientId}:`, error);
+        await bufferRef.update({
+          pendingMessages: 0,
+          pendingReactions: 0,
+          senders: {},
+          flushScheduled: false,
+        });
+        return false;
+      }
+    }
+
+    return result.buffered;
+  } catch (error) {
+    // Fail open - better a duplicate push than a lost one
+    console.error(`Digest buffering failed for ${recipientId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Enqueue the flush task for a conversation/recipient at `flushAt`
+ */
+async function scheduleFlush(conversationId: string, recipientId: string, flushAt: number): Promise<void> {
+  const delaySeconds = Math.max(1, Math.ceil((flushAt - Date.now()) / 1000));
+  await getFunctions()
+    .taskQueue('flushNotificationDigest')
+    .enqueue({ conversationId, recipientId }, { scheduleDelaySeconds: delaySeconds });
+}
+
+/**
+ * Build the digest body, e.g. "Alex sent 5 messages" or "7 new messages from 3 people · 2 reactions"
+ */
+function buildDigestText(buffer: DigestBuffer, includeNames: boolean): string {
+  const senderNames = Object.values(buffer.senders || {});
+  const parts: string[] = [];
+
+  if (buffer.pendingMessages > 0) {
+    const noun = buffer.pendingMessages === 1 ? 'message' : 'messages';
+    if (senderNames.length > 1) {
+      parts.push(`${buffer.pendingMessages} new ${noun} from ${senderNames.length} people`);
+    } else if (includeNames && senderNames.length === 1) {
+      parts.push(`${senderNames[0]} sent ${buffer.pendingMessages} ${noun}`);
+    } else {
+      parts.push(`${buffer.pendingMessages} new ${noun}`);
+    }
+  }
+
+  if (buffer.pendingReactions > 0) {
+    parts.push(`${buffer.pendingReactions} ${buffer.pendingReactions === 1 ? 'reaction' : 'reactions'}`);
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * Task queue handler that sends the pending digest for one conversation/recipient
+ */
+export const flushNotificationDigest = onTaskDispatched<{ conversationId: string; recipientId: string }>(
+  {
+    retryConfig: {
+      maxAttempts: FLUSH_MAX_ATTEMPTS,
+      minBackoffSeconds: 10,
+    },
+    rateLimits: {
+      maxConcurrentDispatches: 50,
+    },
+  },
+  async (request) => {
+    const { conversationId, recipientId } = request.data;
+    const bufferRef = db.collection('notificationDigests').doc(`${conversationId}_${recipientId}`);
+
+    try {
+      await flushDigest(conversationId, recipientId, bufferRef);
+    } catch (error) {
+      // After the last attempt nothing will drain the buffer; let the next event open a new window
+      if (request.retryCount >= FLUSH_MAX_ATTEMPTS - 1) {
+        console.error(`Digest flush for ${recipientId} failed on its last attempt:`, error);
+        await bufferRef.update({ flushScheduled: false, updatedAt: FieldValue.serverTimestamp() })
+          .catch((resetError) => console.error(`Failed to reset digest buffer for ${recipientId}:`, resetError));
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * Send the pending digest, then take what was sent off the buffer
+ *
+ * The buffer is only changed once the push went out, so a failed attempt
+ * leaves everything for the task queue's retry. Events buffered while the
+ * digest was being sent stay pending for another flush.
+ */
+async function flushDigest(
+  conversationId: string,
+  recipientId: string,
+  bufferRef: DocumentReference
+): Promise<void> {
+  const buffer = (await bufferRef.get()).data() as DigestBuffer | undefined;
+  if (!buffer) return;
+
+  if (buffer.pendingMessages + buffer.pendingReactions === 0) {
+    console.log(`Nothing to flush for ${conversationId}_${recipientId}`);
+  } else {
+    await sendDigest(conversationId, recipientId, buffer);
+  }
+
+  const remaining = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(bufferRef);
+    const current = doc.data() as DigestBuffer | undefined;
+    if (!current) return 0;
+
+    const pendingMessages = Math.max(0, (current.pendingMessages || 0) - buffer.pendingMessages);
+    const pendingReactions = Math.max(0, (current.pendingReactions || 0) - buffer.pendingReactions);
+    const pending = pendingMessages + pendingReactions;
+
+    // Senders aren't tracked per event: keep those that are new since the
+    // snapshot, and the latest one, for the events still pending
+    const flushedSenders = buffer.senders || {};
+    const senders = pending === 0 ? {} : Object.fromEntries(
+      Object.entries(current.senders || {})
+        .filter(([senderId]) => !(senderId in flushedSenders) || senderId === current.lastSenderId)
+    );
+
+    transaction.update(bufferRef, {
+      windowStart: Date.now(),
+      pendingMessages,
+      pendingReactions,
+      senders,
+      flushScheduled: pending > 0,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return pending;
+  });
+
+  if (remaining > 0) {
+    await scheduleFlush(conversationId, recipientId, Date.now() + DIGEST_WINDOW_MS);
+  }
+}
+
+/**
+ * Push a digest of the buffered events to the recipient's devices
+ */
+async function sendDigest(conversationId: string, recipientId: string, buffer: DigestBuffer): Promise<void> {
+  const [conversationDoc, devices, recipientSettings, badge] = await Promise.all([
+    db.collection('conversations').doc(conversationId).get(),
+    getUserDeviceTokens(recipientId),
+    getRecipientSettings([recipientId], conversationId),
+    getBadgeCount(recipientId),
+  ]);
+
+  if (devices.length === 0) {
+    console.log(`No FCM tokens for digest recipient ${recipientId}`);
+    return;
+  }
+
+  const conversation = conversationDoc.data();
+  const settings = recipientSettings.get(recipientId);
+  const collapseKey = conversationCollapseKey(conversationId);
+
+  // The user may have muted the conversation since the window opened
+  if (settings?.deliveryMode === 'SILENT') {
+    await sendToDevices(devices, withBadge(silentPayload({
+      type: 'BADGE_UPDATE',
+      conversationId,
+      messageId: buffer.lastMessageId || '',
+    }), badge));
+    return;
+  }
+
+  // The digest never contains message text, but HIDDEN also hides who sent what
+  const hidden = settings?.previewMode === 'HIDDEN';
+  const lastSenderId = buffer.lastSenderId || '';
+  const data: Record<string, string> = {
+    type: 'NEW_MESSAGE',
+    conversationId,
+    messageId: buffer.lastMessageId || '',
+    senderId: lastSenderId,
+    senderName: buffer.senders?.[lastSenderId] || 'Someone',
+    messageText: buildDigestText(buffer, !hidden),
+    isGroup: conversation?.type === 'GROUP' ? 'true' : 'false',
+    groupName: conversation?.name || '',
+    digest: 'true',
+    messageCount: String(buffer.pendingMessages),
+    reactionCount: String(buffer.pendingReactions),
+    preview: settings?.previewMode || 'HIDDEN',
+  };
+
+  if (hidden) {
+    delete data.senderId;
+    delete data.senderName;
+    delete data.groupName;
+  }
+
+  const response = await sendToDevices(devices, withBadge(withCollapseKey({
+    data,
+    android: {
+      priority: 'high',
+    },
+    apns: {
+      headers: {
+        'apns-priority': '10',
+      },
+      payload: {
+        aps: {
+          'content-available': 1,
+        },
+      },
+    },
+  }, collapseKey), badge));
+
+  console.log(`Sent digest to ${recipientId}: ${response.successCount} successful, ${response.failureCount} failed`);
+}
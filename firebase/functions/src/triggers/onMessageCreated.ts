@@ -1,15 +1,27 @@
 /**
  * Message Triggers
  * 
- * Handles automatic actions when messages are created (e.g., push notifications)
+ * Handles automatic actions when messages are created (e.g., push notifications,
+ * learning the sender's smart reply style)
  */
 
 import { onDocumentCreated } from 'firebase-functions/v2/firestore';
-import { getMessaging } from 'firebase-admin/messaging';
 import { getFirestore } from 'firebase-admin/firestore';
 import * as admin from 'firebase-admin';
+import { getDeviceTokens, sendToDevices, silentPayload, withCollapseKey, withBadge, DevicePayload, DeviceToken } from '../utils/fcm';
+import { getRecipientSettings } from '../utils/notificationSettings';
+import { applyPreviewMode, PreviewMode } from '../utils/notificationPreview';
+import { translateNotificationBodies, pretranslatedBodies, notificationDeadline } from '../ai/notificationTranslation';
+import { shouldAutoTranslate, autoTranslateMessage } from '../ai/autoTranslation';
+import { normalizeLanguageCode } from '../ai/translationCache';
+import { identifyLanguage } from '../utils/languageId';
+import { sameLanguage } from '../utils/languageTags';
+import { bufferForDigest, conversationCollapseKey } from './notificationDigest';
+import { resolveMentions } from '../utils/mentions';
+import { clearReactionPreviewUpdate } from '../utils/reactionPreviews';
+import { applyNewMessage, messagePreviewText } from '../utils/conversationSummary';
+import { updateStyleProfile } from '../ai/styleProfile';
 
-const messaging = getMessaging();
 const db = getFirestore();
 
 /**
@@ -24,6 +36,16 @@ export const onMessageCreated = onDocumentCreated(
     const conversationId = event.params.conversationId;
     const messageId = event.params.messageId;
 
+    // Server-side auto-translation runs alongside the notification work below
+    let autoTranslation: Promise<Map<string, string>> | null = null;
+
+    // So does learning the sender's style for smart replies
+    const styleUpdate = message.type === 'TEXT' && message.text && message.senderId
+      ? updateStyleProfile(message.senderId, message.text).catch((error) => {
+        console.error('Error updating style profile:', error);
+      })
+      : null;
+
     try {
       // Get conversation details
       const conversationDoc = await db
@@ -39,19 +61,25 @@ export const onMessageCreated = onDocumentCreated(
       const conversation = conversationDoc.data();
       if (!conversation) return;
 
-      // Clear all reaction notifications when a new message arrives
-      // This ensures reaction previews don't stay stuck when new messages are sent
+      if (shouldAutoTranslate(message, conversation)) {
+        autoTranslation = autoTranslateMessage(event.data!.ref, message, conversation.participants, conversationId);
+      }
+
+      // Sending a newer message supersedes the sender's own reaction preview.
+      // Other participants keep theirs until they open the conversation.
       await db.collection('conversations').doc(conversationId).update({
-        reactionNotifications: {},
+        ...clearReactionPreviewUpdate(message.senderId),
         updatedAt: admin.firestore.FieldValue.serverTimestamp()
       });
-      console.log(`Cleared reaction notifications for conversation ${conversationId}`);
 
       // Get recipient user IDs (exclude sender)
       const recipientIds = conversation.participants.filter(
         (id: string) => id !== message.senderId
       );
 
+      // Maintain unread counts, read markers and lastMessage on the conversation
+      const badges = await applyNewMessage(conversationId, messageId, message, recipientIds);
+
       if (recipientIds.length === 0) return;
 
       // Get sender details
@@ -59,53 +87,129 @@ export const onMessageCreated = onDocumentCreated(
       const sender = senderDoc.data();
       const senderName = sender?.displayName || 'Someone';
 
-      // Get recipient FCM tokens (fetch individually to avoid Firestore 'in' query limits)
-      const recipientDocs = await Promise.all(
-        recipientIds.map((id: string) => db.collection('users').doc(id).get())
-      );
+      // Resolve @mentions for group text messages
+      let mentions: string[] = [];
+      if (conversation.type === 'GROUP' && message.type === 'TEXT' && message.text) {
+        mentions = await resolveMentions(message.text, message.senderId, conversation);
 
-      const tokens = recipientDocs
-        .map((doc) => {
-          const user = doc.data();
-          if (user?.fcmToken) {
-            console.log(`Found FCM token for user ${doc.id}: ${user.fcmToken.substring(0, 20)}...`);
-            return user.fcmToken;
-          } else {
-            console.log(`No FCM token for user ${doc.id}`);
-            return null;
-          }
-        })
-        .filter((token): token is string => token != null && token !== '');
+        if (mentions.length > 0) {
+          console.log(`Message ${messageId} mentions ${mentions.length} users`);
+          const unreadMentionUpdates: Record<string, admin.firestore.FieldValue> = {};
+          mentions.forEach((userId) => {
+            unreadMentionUpdates[`unreadMentions.${userId}`] = admin.firestore.FieldValue.increment(1);
+          });
 
-      if (tokens.length === 0) {
+          await Promise.all([
+            event.data!.ref.update({ mentions }),
+            db.collection('conversations').doc(conversationId).update(unreadMentionUpdates),
+          ]);
+        }
+      }
+
+      // Get every registered device for each recipient, plus their mute / quiet-hours
+      // and preview settings. Mentioned users are alerted even if they muted the conversation
+      const [devices, recipientSettings] = await Promise.all([
+        getDeviceTokens(recipientIds),
+        getRecipientSettings(recipientIds, conversationId, { bypassMute: mentions }),
+      ]);
+
+      if (devices.length === 0) {
         console.log('No FCM tokens found for recipients');
         return;
       }
 
+      // Coalesce bursts: recipients with an open digest window get the digest flush
+      // instead of one push per message. Mentions always go out immediately.
+      const bufferedRecipients = new Set<string>();
+      await Promise.all(
+        recipientIds
+          .filter((id: string) => recipientSettings.get(id)?.deliveryMode === 'ALERT' && !mentions.includes(id))
+          .map(async (id: string) => {
+            const buffered = await bufferForDigest(conversationId, id, {
+              kind: 'message',
+              senderId: message.senderId,
+              senderName,
+              messageId,
+            });
+            if (buffered) bufferedRecipients.add(id);
+          })
+      );
+
+      if (bufferedRecipients.size > 0) {
+        console.log(`Buffered message ${messageId} for ${bufferedRecipients.size} recipients' digests`);
+      }
+
       // Prepare notification body
-      const notificationBody = message.type === 'IMAGE'
-        ? '📷 Sent an image'
-        : message.type === 'AUDIO'
-        ? '🎤 Voice message'
-        : message.text || 'New message';
+      const notificationBody = messagePreviewText(message);
+
+      console.log(`Sending notification from ${senderName} (${message.senderId})`);
+
+      // Translate text bodies once per recipient language (only for alerts that show the text)
+      let translatedBodies = new Map<string, string>();
+      if (message.type === 'TEXT' && message.text) {
+        // Codes are normalized the way auto-translation keys its results
+        const senderLanguage = normalizeLanguageCode(sender?.preferredLanguage);
+
+        // Senders don't always write in their preferred language; go by the text when it's
+        // clearly another one (the preference is kept otherwise, it can say more, e.g. the script)
+        const identified = identifyLanguage(message.text, senderLanguage === 'auto' ? undefined : senderLanguage);
+        const writtenInOther = identified.reliable && identified.language !== null &&
+          (senderLanguage === 'auto' || !sameLanguage(identified.language, senderLanguage));
+
+        const targetLanguages = new Set<string>();
+        recipientSettings.forEach((settings, userId) => {
+          const language = normalizeLanguageCode(settings.language);
+          if (settings.deliveryMode === 'ALERT' && settings.previewMode === 'FULL' && !bufferedRecipients.has(userId) &&
+              language !== 'auto' && (writtenInOther ? !sameLanguage(language, identified.language!) : language !== senderLanguage)) {
+            targetLanguages.add(language);
+          }
+        });
+
+        // One budget for both paths below
+        const deadline = notificationDeadline();
+        let missingLanguages = Array.from(targetLanguages);
 
-      console.log(`Sending notification from ${senderName} (${message.senderId}) with message: ${notificationBody}`);
+        if (missingLanguages.length > 0 && autoTranslation) {
+          // Don't pay twice for languages the auto-translation is already producing: if it's
+          // still running at the deadline, those recipients get the original text
+          const pretranslated = await pretranslatedBodies(autoTranslation, missingLanguages, deadline);
+          translatedBodies = pretranslated || new Map();
+          missingLanguages = pretranslated ? missingLanguages.filter((language) => !pretranslated.has(language)) : [];
+        }
+
+        // Languages auto-translation finished without (all of them if it isn't running) are translated here
+        if (missingLanguages.length > 0 && Date.now() < deadline) {
+          const fallbackBodies = await translateNotificationBodies(
+            message.text,
+            identified.reliable ? identified.language ?? undefined : undefined,
+            missingLanguages,
+            message.senderId,
+            conversationId,
+            deadline
+          );
+          fallbackBodies.forEach((body, language) => translatedBodies.set(language, body));
+        }
+      }
 
       // Send data-only message (no notification payload)
       // This ensures MessagingService.onMessageReceived() is ALWAYS called,
       // even when the app is in the background or killed.
-      const response = await messaging.sendEachForMulticast({
-        tokens,
-        data: {
-          type: 'NEW_MESSAGE',
+      const buildAlertPayload = (
+        type: 'NEW_MESSAGE' | 'MENTION',
+        previewMode: PreviewMode,
+        translatedBody: string | undefined
+      ): DevicePayload => withCollapseKey({
+        data: applyPreviewMode({
+          type,
           conversationId,
           messageId,
           senderId: message.senderId,
           senderName: senderName,
-          messageText: notificationBody,
+          messageText: translatedBody || notificationBody,
+          translated: translatedBody ? 'true' : 'false',
           isGroup: conversation.type === 'GROUP' ? 'true' : 'false',
           groupName: conversation.name || '',
-        },
+        }, previewMode),
         android: {
           priority: 'high',
         },
@@ -119,34 +223,45 @@ export const onMessageCreated = onDocumentCreated(
             },
           },
         },
+      }, conversationCollapseKey(conversationId));
+
+      // Group devices that receive an identical payload so each group is one multicast
+      const deviceGroups = new Map<string, { payload: DevicePayload; devices: DeviceToken[] }>();
+      devices.filter((device) => !bufferedRecipients.has(device.userId)).forEach((device) => {
+        const settings = recipientSettings.get(device.userId);
+        const previewMode = settings?.previewMode || 'HIDDEN';
+        const type = settings?.deliveryMode === 'SILENT'
+          ? 'BADGE_UPDATE'
+          : mentions.includes(device.userId) ? 'MENTION' : 'NEW_MESSAGE';
+        const language = normalizeLanguageCode(settings?.language);
+        const translatedBody = translatedBodies.get(language);
+        const badge = badges.get(device.userId) || 0;
+        const key = type === 'BADGE_UPDATE'
+          ? `${type}:${badge}`
+          : `${type}:${previewMode}:${translatedBody ? language : 'original'}:${badge}`;
+
+        if (!deviceGroups.has(key)) {
+          deviceGroups.set(key, {
+            // Muted or quiet-hours recipients still get a silent badge update
+            payload: withBadge(type === 'BADGE_UPDATE'
+              ? silentPayload({ type, conversationId, messageId })
+              : buildAlertPayload(type, previewMode, translatedBody), badge),
+            devices: [],
+          });
+        }
+        deviceGroups.get(key)!.devices.push(device);
       });
 
-      console.log(`Sent notifications: ${response.successCount} successful, ${response.failureCount} failed`);
-
-      // Clean up invalid tokens
-      const failedTokens = response.responses
-        .map((resp, idx) => (resp.success ? null : tokens[idx]))
-        .filter((token): token is string => token != null);
-
-      if (failedTokens.length > 0) {
-        console.log('Cleaning up failed tokens:', failedTokens);
-        // Remove invalid FCM tokens
-        await Promise.all(
-          failedTokens.map(async (token) => {
-            const userQuery = await db
-              .collection('users')
-              .where('fcmToken', '==', token)
-              .limit(1)
-              .get();
-
-            if (!userQuery.empty) {
-              await userQuery.docs[0].ref.update({ fcmToken: null });
-            }
-          })
-        );
+      for (const [key, group] of deviceGroups) {
+        const response = await sendToDevices(group.devices, group.payload);
+        console.log(`Sent ${key} to ${group.devices.length} devices: ${response.successCount} successful, ${response.failureCount} failed`);
       }
     } catch (error) {
       console.error('Error sending notification:', error);
+    } finally {
+      // Keep the instance alive until the translations and style profile are written
+      if (autoTranslation) await autoTranslation;
+      if (styleUpdate) await styleUpdate;
     }
   }
 );
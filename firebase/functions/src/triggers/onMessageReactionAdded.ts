@@ -5,22 +5,31 @@
  */
 
 import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
-import { getMessaging } from 'firebase-admin/messaging';
-import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getUserDeviceTokens, sendToDevices, silentPayload, withCollapseKey, withBadge, DeviceToken, DevicePayload } from '../utils/fcm';
+import { getRecipientSettings } from '../utils/notificationSettings';
+import { applyPreviewMode } from '../utils/notificationPreview';
+import { addReactionPreview, removeReactionPreview } from '../utils/reactionPreviews';
+import { getBadgeCount } from '../utils/conversationSummary';
+import { bufferForDigest, conversationCollapseKey } from './notificationDigest';
+import { isServerOnlyUpdate } from '../utils/messageUpdates';
 
-const messaging = getMessaging();
 const db = getFirestore();
 
 /**
- * Send push notification when someone reacts to a message
+ * Send push notification when someone reacts to a message, and keep the
+ * message owner's reaction preview in sync when reactions are added or removed
  */
 export const onMessageReactionAdded = onDocumentUpdated(
   'conversations/{conversationId}/messages/{messageId}',
   async (event) => {
-    console.log('🎯 onMessageReactionAdded triggered');
-    
     const beforeData = event.data?.before.data();
     const afterData = event.data?.after.data();
+
+    // Mentions and translations written back by onMessageCreated
+    if (beforeData && afterData && isServerOnlyUpdate(beforeData, afterData)) return;
+
+    console.log('🎯 onMessageReactionAdded triggered');
     
     if (!beforeData || !afterData) {
       console.log('❌ Missing before or after data');
@@ -52,17 +61,46 @@ export const onMessageReactionAdded = onDocumentUpdated(
         });
       }
       
+      // Find removed reactions
+      const removedReactions: Array<{ emoji: string; userId: string }> = [];
+      
+      for (const [emoji, userIds] of Object.entries(beforeReactions)) {
+        const afterUserIds = afterReactions[emoji] || [];
+        const removedUserIds = userIds.filter(uid => !afterUserIds.includes(uid));
+        
+        removedUserIds.forEach(userId => {
+          removedReactions.push({ emoji, userId });
+        });
+      }
+      
       console.log(`Found ${newReactions.length} new reactions:`, newReactions);
+      console.log(`Found ${removedReactions.length} removed reactions:`, removedReactions);
       
-      // If no new reactions, exit
-      if (newReactions.length === 0) {
-        console.log('✅ No new reactions to process');
+      // If reactions didn't change, exit
+      if (newReactions.length === 0 && removedReactions.length === 0) {
+        console.log('✅ No reaction changes to process');
         return;
       }
       
       // Get message sender (person who will receive notification)
       const messageSenderId = afterData.senderId as string;
       
+      // Drop removed reactions from the message owner's preview stack
+      for (const { emoji, userId } of removedReactions) {
+        if (userId === messageSenderId) continue;
+        
+        try {
+          await removeReactionPreview(conversationId, messageSenderId, {
+            emoji,
+            reactorId: userId,
+            messageId,
+          });
+          console.log(`🗑️ Removed ${emoji} from ${userId} in preview for ${messageSenderId}`);
+        } catch (removeError: any) {
+          console.error(`❌ Error removing reaction preview: ${removeError.message}`);
+        }
+      }
+      
       // Send notification for each new reaction (but only to message sender)
       for (const { emoji, userId } of newReactions) {
         try {
@@ -82,22 +120,19 @@ export const onMessageReactionAdded = onDocumentUpdated(
           
           console.log(`👤 Reactor name: ${reactorName}`);
           
-          console.log(`📥 Fetching message sender details for ${messageSenderId}`);
-          // Get message sender's FCM token
-          let senderDoc;
-          let sender;
+          console.log(`📥 Fetching device tokens for message sender ${messageSenderId}`);
+          // Get every registered device for the message sender
+          let senderDevices: DeviceToken[] = [];
           try {
-            senderDoc = await db.collection('users').doc(messageSenderId).get();
-            sender = senderDoc.data();
+            senderDevices = await getUserDeviceTokens(messageSenderId);
           } catch (error: any) {
-            console.log(`❌ Error fetching sender: ${error.message}`);
-            sender = null;
+            console.log(`❌ Error fetching sender devices: ${error.message}`);
           }
           
-          if (!sender?.fcmToken) {
-            console.log(`⚠️ No FCM token for message sender ${messageSenderId}, but continuing to create reaction notification`);
+          if (senderDevices.length === 0) {
+            console.log(`⚠️ No FCM tokens for message sender ${messageSenderId}, but continuing to create reaction notification`);
           } else {
-            console.log(`✅ Found FCM token for sender: ${sender.fcmToken.substring(0, 20)}...`);
+            console.log(`✅ Found ${senderDevices.length} device(s) for sender`);
           }
           
           console.log(`📥 Fetching conversation details for ${conversationId}`);
@@ -114,34 +149,55 @@ export const onMessageReactionAdded = onDocumentUpdated(
           console.log(`📛 Display name (with nickname): ${displayName}`);
           console.log(`📤 Attempting to send FCM notification...`);
           
-          // Only send FCM if token exists
-          if (sender?.fcmToken) {
+          // Only send FCM if the sender has registered devices
+          if (senderDevices.length > 0) {
             try {
-              // Send notification
-              await messaging.send({
-                token: sender.fcmToken,
-                data: {
-                  type: 'REACTION',
-                  conversationId,
+              // Respect the message owner's mute / quiet-hours and preview settings
+              const recipientSettings = await getRecipientSettings([messageSenderId], conversationId);
+              const settings = recipientSettings.get(messageSenderId);
+              
+              // Fold the reaction into the owner's open digest window, if any
+              const buffered = settings?.deliveryMode === 'ALERT' &&
+                await bufferForDigest(conversationId, messageSenderId, {
+                  kind: 'reaction',
+                  senderId: userId,
+                  senderName: displayName,
                   messageId,
-                  reactorId: userId,
-                  reactorName: displayName,
-                  emoji,
-                  messageText: (afterData.text as string) || '',
-                },
-                android: {
-                  priority: 'high',
-                },
-                apns: {
-                  headers: {
-                    'apns-priority': '10',
-                  },
-                },
-              });
+                });
               
-              console.log(`✅ FCM notification sent successfully`);
+              if (buffered) {
+                console.log(`🗂️ Reaction folded into digest for ${messageSenderId}`);
+              } else {
+                const badge = await getBadgeCount(messageSenderId);
+                const payload: DevicePayload = settings?.deliveryMode === 'SILENT'
+                  ? silentPayload({ type: 'BADGE_UPDATE', conversationId, messageId })
+                  : withCollapseKey({
+                      data: applyPreviewMode({
+                        type: 'REACTION',
+                        conversationId,
+                        messageId,
+                        reactorId: userId,
+                        reactorName: displayName,
+                        emoji,
+                        messageText: (afterData.text as string) || '',
+                      }, settings?.previewMode || 'HIDDEN', ''),
+                      android: {
+                        priority: 'high',
+                      },
+                      apns: {
+                        headers: {
+                          'apns-priority': '10',
+                        },
+                      },
+                    }, conversationCollapseKey(conversationId));
+                
+                // Send notification to all of the sender's devices
+                const response = await sendToDevices(senderDevices, withBadge(payload, badge));
+                
+                console.log(`✅ FCM notification sent: ${response.successCount} successful, ${response.failureCount} failed`);
+              }
             } catch (sendError: any) {
-              // If FCM send fails (invalid token), log but continue
+              // If FCM send fails, log but continue
               console.log(`⚠️ FCM send failed: ${sendError.message}`);
               console.log(`📝 Continuing despite FCM error - will create reaction notification in Firestore`);
             }
@@ -151,18 +207,15 @@ export const onMessageReactionAdded = onDocumentUpdated(
           
           console.log(`📝 Updating conversation with reaction preview for message owner...`);
           
-          // Update conversation with a per-user reaction notification
+          // Stack the reaction on the message owner's preview
           // This allows ONLY the message owner to see the reaction in their preview
           // while keeping the main lastMessage unchanged for everyone else
-          const conversationRef = db.collection('conversations').doc(conversationId);
-          await conversationRef.update({
-            [`reactionNotifications.${messageSenderId}`]: {
-              text: `${emoji} ${displayName} reacted to your message`,
-              timestamp: Date.now(),
-              messageId: messageId,
-              reactorId: userId,
-            },
-            updatedAt: FieldValue.serverTimestamp(),
+          await addReactionPreview(conversationId, messageSenderId, {
+            emoji,
+            reactorId: userId,
+            reactorName: displayName,
+            messageId,
+            timestamp: Date.now(),
           });
           
           console.log(`✅ Reaction notification set for user ${messageSenderId}`);
@@ -0,0 +1,54 @@
+/**
+ * Read Receipt Triggers
+ *
+ * Keeps per-participant unread counts and read markers in sync when messages are read
+ */
+
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { applyReadReceipt } from '../utils/conversationSummary';
+import { isServerOnlyUpdate } from '../utils/messageUpdates';
+
+/**
+ * Update the reader's unread count when they're added to a message's readBy
+ */
+export const onMessageRead = onDocumentUpdated(
+  'conversations/{conversationId}/messages/{messageId}',
+  async (event) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+    if (!beforeData || !afterData) return;
+
+    // Mentions and translations written back by onMessageCreated
+    if (isServerOnlyUpdate(beforeData, afterData)) return;
+
+    const conversationId = event.params.conversationId;
+    const messageId = event.params.messageId;
+
+    const beforeReaders = readerIds(beforeData.readBy);
+    const newReaders = readerIds(afterData.readBy).filter(
+      (userId) => !beforeReaders.includes(userId) && userId !== afterData.senderId
+    );
+
+    if (newReaders.length === 0) return;
+
+    const timestamp: number = afterData.timestamp || Date.now();
+
+    for (const userId of newReaders) {
+      try {
+        await applyReadReceipt(conversationId, userId, messageId, timestamp);
+        console.log(`Applied read receipt for ${userId} on message ${messageId}`);
+      } catch (error) {
+        console.error(`Error applying read receipt for ${userId}:`, error);
+      }
+    }
+  }
+);
+
+/**
+ * readBy is a map of userId -> read timestamp (older messages used a list of user IDs)
+ */
+function readerIds(readBy: unknown): string[] {
+  if (Array.isArray(readBy)) return readBy.filter((id): id is string => typeof id === 'string');
+  if (readBy && typeof readBy === 'object') return Object.keys(readBy);
+  return [];
+}
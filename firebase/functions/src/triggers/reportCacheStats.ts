@@ -0,0 +1,85 @@
+/**
+ * Cache Stats Report
+ *
+ * Daily summary per feature of the AI response cache: hit rate (all-time and
+ * since the previous report) and the number and size of stored entries.
+ * Written to `aiCacheStats/{feature}` and logged.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldValue, AggregateField } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+interface CacheCounters {
+  hits: number;
+  memoryHits: number;
+  firestoreHits: number;
+  misses: number;
+  writes: number;
+}
+
+const COUNTER_FIELDS: (keyof CacheCounters)[] = ['hits', 'memoryHits', 'firestoreHits', 'misses', 'writes'];
+
+function hitRate(hits: number, misses: number): number | null {
+  return hits + misses > 0 ? hits / (hits + misses) : null;
+}
+
+export const reportCacheStats = onSchedule(
+  {
+    schedule: 'every 24 hours',
+    timeZone: 'Etc/UTC',
+    region: 'us-central1',
+    timeoutSeconds: 300,
+  },
+  async () => {
+    // Feature docs only exist as parents of their shard subcollections
+    const featureRefs = await db.collection('aiCacheStats').listDocuments();
+
+    for (const featureRef of featureRefs) {
+      const feature = featureRef.id;
+
+      const [shards, previousDoc, sizeSnapshot] = await Promise.all([
+        featureRef.collection('shards').get(),
+        featureRef.get(),
+        db.collection('aiCache')
+          .where('feature', '==', feature)
+          .aggregate({ entries: AggregateField.count(), sizeBytes: AggregateField.sum('sizeBytes') })
+          .get(),
+      ]);
+
+      const totals: CacheCounters = { hits: 0, memoryHits: 0, firestoreHits: 0, misses: 0, writes: 0 };
+      shards.forEach((shard) => {
+        const data = shard.data();
+        COUNTER_FIELDS.forEach((field) => {
+          totals[field] += (data[field] as number) || 0;
+        });
+      });
+
+      const previous: Partial<CacheCounters> = previousDoc.data()?.totals || {};
+      const periodHits = totals.hits - (previous.hits || 0);
+      const periodMisses = totals.misses - (previous.misses || 0);
+      const { entries, sizeBytes } = sizeSnapshot.data();
+
+      const report = {
+        feature,
+        totals,
+        hitRate: hitRate(totals.hits, totals.misses),
+        periodHits,
+        periodMisses,
+        periodHitRate: hitRate(periodHits, periodMisses),
+        entries,
+        sizeBytes: sizeBytes || 0,
+        reportedAt: FieldValue.serverTimestamp(),
+      };
+
+      await featureRef.set(report);
+
+      const rate = report.periodHitRate === null ? 'n/a' : `${(report.periodHitRate * 100).toFixed(1)}%`;
+      console.log(
+        `Cache ${feature}: ${rate} hit rate over ${periodHits + periodMisses} lookups, ` +
+        `${entries} entries (${((sizeBytes || 0) / 1024).toFixed(1)} KiB)`
+      );
+    }
+  }
+);
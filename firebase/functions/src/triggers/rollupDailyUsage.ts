@@ -0,0 +1,157 @@
+/**
+ * Daily Usage Rollup
+ *
+ * Aggregates the usage ledger into `usageDaily/{YYYY-MM-DD}` with totals per
+ * feature and model, plus `users/{userId}` and `conversations/{conversationId}`
+ * subcollections. Runs hourly over today and yesterday (UTC) so late entries
+ * land; each run overwrites the day's rollup, so reruns are safe.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldPath, FieldValue, DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { dayKey } from '../utils/usage';
+
+const db = getFirestore();
+
+const PAGE_SIZE = 1000;
+
+interface UsageTotals {
+  requests: number;
+  cacheHits: number;
+  failures: number; // Errors, timeouts and aborts
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  audioSeconds: number;
+  costUsd: number;
+  latencyMsTotal: number; // divide by requests for the average
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    cacheHits: 0,
+    failures: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    audioSeconds: 0,
+    costUsd: 0,
+    latencyMsTotal: 0,
+  };
+}
+
+function addEntry(totals: UsageTotals, entry: DocumentData): void {
+  totals.requests += 1;
+  totals.cacheHits += entry.cacheHit ? 1 : 0;
+  totals.failures += entry.status && entry.status !== 'success' ? 1 : 0;
+  totals.promptTokens += entry.promptTokens || 0;
+  totals.completionTokens += entry.completionTokens || 0;
+  totals.totalTokens += entry.totalTokens || 0;
+  totals.audioSeconds += entry.audioSeconds || 0;
+  totals.costUsd += entry.costUsd || 0;
+  totals.latencyMsTotal += entry.latencyMs || 0;
+}
+
+function addTo(map: Map<string, UsageTotals>, key: string, entry: DocumentData): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  addEntry(totals, entry);
+  return totals;
+}
+
+/**
+ * Recompute the rollup for one day from the ledger
+ */
+async function rollupDay(day: string): Promise<void> {
+  const totals = emptyTotals();
+  const features = new Map<string, UsageTotals>();
+  const models = new Map<string, UsageTotals>();
+  const users = new Map<string, UsageTotals>();
+  const userFeatures = new Map<string, Map<string, UsageTotals>>();
+  const conversations = new Map<string, UsageTotals>();
+
+  let lastDoc: QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let query = db.collection('usageLedger')
+      .where('day', '==', day)
+      .orderBy(FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const page = await query.get();
+    for (const doc of page.docs) {
+      const entry = doc.data();
+      addEntry(totals, entry);
+      addTo(features, entry.feature, entry);
+      if (entry.model) addTo(models, entry.model, entry);
+      if (entry.conversationId) addTo(conversations, entry.conversationId, entry);
+      if (entry.userId) {
+        addTo(users, entry.userId, entry);
+        if (!userFeatures.has(entry.userId)) userFeatures.set(entry.userId, new Map());
+        addTo(userFeatures.get(entry.userId)!, entry.feature, entry);
+      }
+    }
+
+    if (page.size < PAGE_SIZE) break;
+    lastDoc = page.docs[page.docs.length - 1];
+  }
+
+  const dayRef = db.collection('usageDaily').doc(day);
+  const writer = db.bulkWriter();
+
+  writer.set(dayRef, {
+    day,
+    ...totals,
+    features: Object.fromEntries(features),
+    models: Object.fromEntries(models),
+    userCount: users.size,
+    conversationCount: conversations.size,
+    computedAt: FieldValue.serverTimestamp(),
+  });
+
+  users.forEach((userTotals, userId) => {
+    writer.set(dayRef.collection('users').doc(userId), {
+      userId,
+      ...userTotals,
+      features: Object.fromEntries(userFeatures.get(userId) || new Map()),
+    });
+  });
+
+  conversations.forEach((conversationTotals, conversationId) => {
+    writer.set(dayRef.collection('conversations').doc(conversationId), {
+      conversationId,
+      ...conversationTotals,
+    });
+  });
+
+  await writer.close();
+
+  console.log(
+    `Usage rollup ${day}: ${totals.requests} requests, $${totals.costUsd.toFixed(4)}, ` +
+    `${users.size} users, ${conversations.size} conversations`
+  );
+}
+
+export const rollupDailyUsage = onSchedule(
+  {
+    schedule: 'every 60 minutes',
+    timeZone: 'Etc/UTC',
+    region: 'us-central1',
+    memory: '512MiB',
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const now = Date.now();
+    const days = [dayKey(now - 24 * 60 * 60 * 1000), dayKey(now)];
+
+    for (const day of days) {
+      await rollupDay(day);
+    }
+  }
+);
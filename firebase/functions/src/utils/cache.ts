@@ -1,54 +1,158 @@
 /**
  * Cache Utility Module
- * 
- * Handles caching of translations and AI responses in Firestore
+ *
+ * One cache for all AI responses. Entries live in the `aiCache` collection,
+ * keyed by feature, model, prompt version and normalized input, and expire via
+ * a Firestore TTL policy on `expireAt`. Each function instance keeps a small
+ * in-memory LRU tier in front of Firestore. Hits, misses and writes are counted
+ * in sharded `aiCacheStats/{feature}/shards/{n}` counters (see reportCacheStats).
+ * Memory hits are accumulated per instance and written with the next lookup
+ * that reads Firestore anyway (or once enough have piled up), so a memory hit
+ * rarely waits on a Firestore write.
  */
 
-import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getFirestore, FieldValue, Timestamp, DocumentData } from 'firebase-admin/firestore';
 import * as crypto from 'crypto';
 
 const db = getFirestore();
 
+const MEMORY_MAX_ENTRIES = 500;
+const MEMORY_TTL_MS = 10 * 60 * 1000; // Bounds staleness across instances
+const STATS_SHARDS = 10;
+
+// Memory hits not followed by a Firestore lookup are written after this long or
+// this many lookups, whichever comes first, by the lookup that reaches it
+const STATS_FLUSH_INTERVAL_MS = 30 * 1000;
+const STATS_FLUSH_LOOKUPS = 100;
+
 /**
- * Generate a deterministic hash for cache keys
+ * What a cached response depends on besides its input. Bump promptVersion
+ * whenever a prompt changes so old answers stop being served.
  */
-export function generateCacheKey(text: string, ...params: string[]): string {
-  const combined = [text, ...params].join('|');
-  return crypto.createHash('sha256').update(combined).digest('hex');
+export interface CacheNamespace {
+  feature: string;
+  model: string;
+  promptVersion: string;
+  ttlDays: number;
 }
 
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Map iteration order is insertion order, so the first key is least recently used
+const memory = new Map<string, MemoryEntry>();
+
+interface PendingStats {
+  hits: number;
+  memoryHits: number;
+  firestoreHits: number;
+  misses: number;
+  entryHits: Map<string, number>; // Firestore-tier hits per entry, for hitCount
+}
+
+const pendingStats = new Map<string, PendingStats>();
+let pendingLookups = 0;
+let lastStatsFlush = Date.now();
+
 /**
- * Get cached translation
+ * Normalize text before keying: Unicode NFC, unified line endings, collapsed
+ * runs of spaces and tabs, trimmed. Case and line breaks are preserved.
  */
-export async function getCachedTranslation(
-  text: string,
-  targetLanguage: string
-): Promise<any | null> {
-  try {
-    const cacheKey = generateCacheKey(text, targetLanguage);
-    const cacheRef = db.collection('translations').doc(cacheKey);
-    const cached = await cacheRef.get();
+export function normalizeCacheInput(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .trim();
+}
 
-    if (!cached.exists) {
-      return null;
-    }
+/**
+ * Deterministic cache key for an input and any parameters that change the answer
+ */
+export function buildCacheKey(
+  namespace: CacheNamespace,
+  input: string,
+  params: Record<string, string | undefined> = {}
+): string {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((name) => [name, params[name] ?? null]);
+
+  const hash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      namespace.feature,
+      namespace.model,
+      namespace.promptVersion,
+      normalizeCacheInput(input),
+      sortedParams,
+    ]))
+    .digest('hex');
+
+  return `${namespace.feature}_${hash}`;
+}
+
+function memoryGet(key: string): unknown | undefined {
+  const entry = memory.get(key);
+  if (!entry) return undefined;
+
+  memory.delete(key);
+  if (entry.expiresAt <= Date.now()) return undefined;
+
+  memory.set(key, entry); // Mark as most recently used
+  return entry.value;
+}
+
+function memorySet(key: string, value: unknown, expiresAt: number): void {
+  memory.delete(key);
+  memory.set(key, { value, expiresAt: Math.min(expiresAt, Date.now() + MEMORY_TTL_MS) });
+
+  while (memory.size > MEMORY_MAX_ENTRIES) {
+    memory.delete(memory.keys().next().value as string);
+  }
+}
+
+function statsShardRef(feature: string) {
+  const shard = Math.floor(Math.random() * STATS_SHARDS);
+  return db.collection('aiCacheStats').doc(feature).collection('shards').doc(String(shard));
+}
+
+function cacheRef(key: string) {
+  return db.collection('aiCache').doc(key);
+}
+
+/**
+ * The entry's value if it hasn't expired. TTL deletion can lag by a day or
+ * more, so expiry is checked on read too.
+ */
+function liveValue(data: DocumentData | undefined): { value: unknown; expiresAt: number } | null {
+  const expiresAt = (data?.expireAt as Timestamp | undefined)?.toMillis() ?? 0;
+  return data && expiresAt > Date.now() ? { value: data.value, expiresAt } : null;
+}
+
+/**
+ * Look up a cached value; null on miss, expiry or error
+ */
+export async function cacheGet<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+  const fromMemory = memoryGet(key);
+  if (fromMemory !== undefined) {
+    await recordLookups(namespace.feature, [{ key, tier: 'memory' }], 0);
+    return fromMemory as T;
+  }
 
-    const data = cached.data();
-    
-    // Check if cache is expired (30 days TTL)
-    const cachedAt = data?.cachedAt?.toDate();
-    if (cachedAt) {
-      const now = new Date();
-      const daysSince = (now.getTime() - cachedAt.getTime()) / (1000 * 60 * 60 * 24);
-      
-      if (daysSince > 30) {
-        // Cache expired, delete it
-        await cacheRef.delete();
-        return null;
-      }
+  try {
+    const live = liveValue((await cacheRef(key).get()).data());
+    if (!live) {
+      await recordLookups(namespace.feature, [], 1);
+      return null;
     }
 
-    return data;
+    memorySet(key, live.value, live.expiresAt);
+    await recordLookups(namespace.feature, [{ key, tier: 'firestore' }], 0);
+    return live.value as T;
   } catch (error) {
     console.error('Cache read error:', error);
     return null; // Fail gracefully
@@ -56,50 +160,151 @@ export async function getCachedTranslation(
 }
 
 /**
- * Cache a translation
+ * Look up many keys with one Firestore round trip; returns the hits by key
+ */
+export async function cacheGetMany<T>(namespace: CacheNamespace, keys: string[]): Promise<Map<string, T>> {
+  const uniqueKeys = Array.from(new Set(keys));
+  const found = new Map<string, T>();
+  const hits: CacheHit[] = [];
+  const remaining: string[] = [];
+
+  uniqueKeys.forEach((key) => {
+    const fromMemory = memoryGet(key);
+    if (fromMemory !== undefined) {
+      found.set(key, fromMemory as T);
+      hits.push({ key, tier: 'memory' });
+    } else {
+      remaining.push(key);
+    }
+  });
+
+  if (remaining.length > 0) {
+    try {
+      const docs = await db.getAll(...remaining.map(cacheRef));
+      docs.forEach((doc) => {
+        const live = liveValue(doc.data());
+        if (!live) return;
+
+        memorySet(doc.id, live.value, live.expiresAt);
+        found.set(doc.id, live.value as T);
+        hits.push({ key: doc.id, tier: 'firestore' });
+      });
+    } catch (error) {
+      console.error('Cache batch read error:', error);
+    }
+  }
+
+  await recordLookups(namespace.feature, hits, uniqueKeys.length - found.size);
+  return found;
+}
+
+/**
+ * Store a value. `metadata` is kept alongside for debugging and migrations.
  */
-export async function cacheTranslation(
-  text: string,
-  translatedText: string,
-  sourceLanguage: string,
-  targetLanguage: string,
-  userId: string
+export async function cacheSet<T>(
+  namespace: CacheNamespace,
+  key: string,
+  value: T,
+  metadata: Record<string, unknown> = {}
 ): Promise<void> {
-  try {
-    const cacheKey = generateCacheKey(text, targetLanguage);
-    const cacheRef = db.collection('translations').doc(cacheKey);
+  const expiresAt = Date.now() + namespace.ttlDays * 24 * 60 * 60 * 1000;
+  memorySet(key, value, expiresAt);
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 30); // 30 days from now
+  try {
+    const batch = db.batch();
 
-    await cacheRef.set({
-      originalText: text,
-      translatedText,
-      sourceLanguage,
-      targetLanguage,
+    batch.set(cacheRef(key), {
+      feature: namespace.feature,
+      model: namespace.model,
+      promptVersion: namespace.promptVersion,
+      value,
+      metadata,
+      sizeBytes: Buffer.byteLength(JSON.stringify(value)),
+      hitCount: 0,
       cachedAt: FieldValue.serverTimestamp(),
-      expiresAt: expiresAt,
-      userId,
-      hitCount: 1,
-    }, { merge: true });
+      expireAt: Timestamp.fromMillis(expiresAt),
+    });
+    batch.set(statsShardRef(namespace.feature), { writes: FieldValue.increment(1) }, { merge: true });
+
+    await batch.commit();
   } catch (error) {
     console.error('Cache write error:', error);
     // Don't throw - caching failure shouldn't break the request
   }
 }
 
+interface CacheHit {
+  key: string;
+  tier: 'memory' | 'firestore';
+}
+
+/**
+ * Accumulate hits and misses for the feature stats (and Firestore-tier hits for
+ * the entries' hitCount). Writes everything pending, within the request, when
+ * the lookup read Firestore or a flush is due.
+ */
+async function recordLookups(feature: string, hits: CacheHit[], misses: number): Promise<void> {
+  if (hits.length === 0 && misses === 0) return;
+
+  const pending = pendingStats.get(feature) || { hits: 0, memoryHits: 0, firestoreHits: 0, misses: 0, entryHits: new Map() };
+  hits.forEach(({ key, tier }) => {
+    pending.hits++;
+    if (tier === 'memory') {
+      pending.memoryHits++;
+    } else {
+      pending.firestoreHits++;
+      pending.entryHits.set(key, (pending.entryHits.get(key) || 0) + 1);
+    }
+  });
+  pending.misses += misses;
+  pendingStats.set(feature, pending);
+  pendingLookups += hits.length + misses;
+
+  const readFirestore = misses > 0 || hits.some(({ tier }) => tier === 'firestore');
+  if (readFirestore || pendingLookups >= STATS_FLUSH_LOOKUPS || Date.now() - lastStatsFlush >= STATS_FLUSH_INTERVAL_MS) {
+    await flushLookupStats();
+  }
+}
+
 /**
- * Increment cache hit count
+ * Write and reset the accumulated lookup stats
  */
-export async function incrementCacheHit(cacheKey: string): Promise<void> {
+async function flushLookupStats(): Promise<void> {
+  const features = Array.from(pendingStats.entries());
+  pendingStats.clear();
+  pendingLookups = 0;
+  lastStatsFlush = Date.now();
+
+  await Promise.all(features.map(([feature, pending]) => writeLookupStats(feature, pending)));
+}
+
+async function writeLookupStats(feature: string, pending: PendingStats): Promise<void> {
+  const counters: Record<string, FieldValue> = {};
+  if (pending.hits > 0) counters.hits = FieldValue.increment(pending.hits);
+  if (pending.memoryHits > 0) counters.memoryHits = FieldValue.increment(pending.memoryHits);
+  if (pending.firestoreHits > 0) counters.firestoreHits = FieldValue.increment(pending.firestoreHits);
+  if (pending.misses > 0) counters.misses = FieldValue.increment(pending.misses);
+
   try {
-    const cacheRef = db.collection('translations').doc(cacheKey);
-    await cacheRef.update({
-      hitCount: FieldValue.increment(1),
-      lastAccessedAt: FieldValue.serverTimestamp(),
+    const batch = db.batch();
+    pending.entryHits.forEach((count, key) => {
+      batch.update(cacheRef(key), {
+        hitCount: FieldValue.increment(count),
+        lastHitAt: FieldValue.serverTimestamp(),
+      });
     });
+    batch.set(statsShardRef(feature), counters, { merge: true });
+    await batch.commit();
   } catch (error) {
-    console.error('Cache hit increment error:', error);
+    // An entry may have just been removed by TTL; the lookups still count
+    await bumpStats(feature, counters);
   }
 }
 
+async function bumpStats(feature: string, counters: Record<string, FieldValue>): Promise<void> {
+  try {
+    await statsShardRef(feature).set(counters, { merge: true });
+  } catch (error) {
+    console.error('Cache stats update error:', error);
+  }
+}
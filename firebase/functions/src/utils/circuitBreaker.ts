@@ -0,0 +1,185 @@
+/**
+ * Circuit Breaker Utility
+ *
+ * Shared across function instances via Firestore so that once an upstream is
+ * failing, every instance fails fast instead of burning its timeout on it.
+ *
+ * closed -> open after FAILURE_THRESHOLD consecutive failures; open -> half-open
+ * once the cooldown elapses, letting a single probe through; the probe closes
+ * the circuit on success or re-opens it with a doubled cooldown on failure.
+ */
+
+import { getFirestore, FieldValue, DocumentData } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+
+const db = getFirestore();
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitDoc {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: number;
+  openUntil: number;
+  cooldownMs: number;
+  probeUntil: number;
+}
+
+const FAILURE_THRESHOLD = 5;
+const FAILURE_WINDOW_MS = 60 * 1000; // Failures further apart than this don't accumulate
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 60 * 1000; // A probe that never reports back frees the slot after this
+const LOCAL_CACHE_MS = 5 * 1000; // Avoid a Firestore read on every model call
+
+const CLOSED: CircuitDoc = {
+  state: 'closed',
+  consecutiveFailures: 0,
+  lastFailureAt: 0,
+  openUntil: 0,
+  cooldownMs: 0,
+  probeUntil: 0,
+};
+
+const localState = new Map<string, { circuit: CircuitDoc; fetchedAt: number }>();
+
+function circuitRef(name: string) {
+  return db.collection('circuitBreakers').doc(name);
+}
+
+function toCircuit(data: DocumentData | undefined): CircuitDoc {
+  return { ...CLOSED, ...(data || {}) } as CircuitDoc;
+}
+
+async function readCircuit(name: string): Promise<CircuitDoc> {
+  const local = localState.get(name);
+  if (local && Date.now() - local.fetchedAt < LOCAL_CACHE_MS) {
+    return local.circuit;
+  }
+
+  const doc = await circuitRef(name).get();
+  const circuit = toCircuit(doc.data());
+  localState.set(name, { circuit, fetchedAt: Date.now() });
+  return circuit;
+}
+
+function remember(name: string, circuit: CircuitDoc): void {
+  localState.set(name, { circuit, fetchedAt: Date.now() });
+}
+
+function unavailable(name: string, retryAt: number): HttpsError {
+  const seconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+  return new HttpsError(
+    'unavailable',
+    `AI service is temporarily unavailable. Please try again in ${seconds} seconds.`,
+    { circuit: name, retryAfterSeconds: seconds }
+  );
+}
+
+/**
+ * Throw `unavailable` if the circuit is open. When the cooldown has elapsed,
+ * exactly one caller claims the half-open probe and is let through.
+ */
+export async function assertCircuitClosed(name: string): Promise<void> {
+  let circuit: CircuitDoc;
+  try {
+    circuit = await readCircuit(name);
+  } catch (error) {
+    // Fail open: a Firestore hiccup shouldn't take the AI features down
+    console.error(`Circuit breaker read failed for ${name}:`, error);
+    return;
+  }
+
+  const now = Date.now();
+  if (circuit.state === 'closed') return;
+  if (circuit.state === 'open' && now < circuit.openUntil) {
+    throw unavailable(name, circuit.openUntil);
+  }
+  if (circuit.state === 'half-open' && now < circuit.probeUntil) {
+    throw unavailable(name, circuit.probeUntil);
+  }
+
+  // Cooldown over (or the last probe went missing): try to claim the probe
+  let claimed = false;
+  try {
+    claimed = await db.runTransaction(async (transaction) => {
+      const ref = circuitRef(name);
+      const current = toCircuit((await transaction.get(ref)).data());
+      const at = Date.now();
+
+      if (current.state === 'closed') return true;
+      if (current.state === 'open' && at < current.openUntil) return false;
+      if (current.state === 'half-open' && at < current.probeUntil) return false;
+
+      const probing: CircuitDoc = { ...current, state: 'half-open', probeUntil: at + PROBE_TIMEOUT_MS };
+      transaction.set(ref, { ...probing, updatedAt: FieldValue.serverTimestamp() });
+      remember(name, probing);
+      return true;
+    });
+  } catch (error) {
+    console.error(`Circuit breaker probe claim failed for ${name}:`, error);
+    return;
+  }
+
+  if (!claimed) {
+    localState.delete(name);
+    throw unavailable(name, now + BASE_COOLDOWN_MS);
+  }
+
+  console.log(`Circuit ${name} half-open: sending probe request`);
+}
+
+/**
+ * Record a successful upstream call; closes the circuit if it wasn't already
+ */
+export async function recordCircuitSuccess(name: string): Promise<void> {
+  const local = localState.get(name)?.circuit;
+  if (local && local.state === 'closed' && local.consecutiveFailures === 0) return;
+
+  try {
+    await circuitRef(name).set({ ...CLOSED, updatedAt: FieldValue.serverTimestamp() });
+    remember(name, CLOSED);
+    if (local && local.state !== 'closed') {
+      console.log(`Circuit ${name} closed`);
+    }
+  } catch (error) {
+    console.error(`Circuit breaker reset failed for ${name}:`, error);
+  }
+}
+
+/**
+ * Record an upstream failure (after retries); may open the circuit
+ */
+export async function recordCircuitFailure(name: string): Promise<void> {
+  try {
+    const circuit = await db.runTransaction(async (transaction) => {
+      const ref = circuitRef(name);
+      const current = toCircuit((await transaction.get(ref)).data());
+      const now = Date.now();
+
+      const consecutiveFailures = now - current.lastFailureAt < FAILURE_WINDOW_MS
+        ? current.consecutiveFailures + 1
+        : 1;
+
+      let next: CircuitDoc = { ...current, consecutiveFailures, lastFailureAt: now };
+
+      if (current.state === 'half-open') {
+        // Probe failed: back off harder
+        const cooldownMs = Math.min(MAX_COOLDOWN_MS, Math.max(BASE_COOLDOWN_MS, current.cooldownMs * 2));
+        next = { ...next, state: 'open', cooldownMs, openUntil: now + cooldownMs, probeUntil: 0 };
+      } else if (current.state === 'closed' && consecutiveFailures >= FAILURE_THRESHOLD) {
+        next = { ...next, state: 'open', cooldownMs: BASE_COOLDOWN_MS, openUntil: now + BASE_COOLDOWN_MS };
+      }
+
+      transaction.set(ref, { ...next, updatedAt: FieldValue.serverTimestamp() });
+      return next;
+    });
+
+    remember(name, circuit);
+    if (circuit.state === 'open') {
+      console.warn(`Circuit ${name} open until ${new Date(circuit.openUntil).toISOString()}`);
+    }
+  } catch (error) {
+    console.error(`Circuit breaker update failed for ${name}:`, error);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Conversation Summary Module
+ *
+ * Server-maintained unread counts, last-read markers and lastMessage preview on
+ * conversation documents, plus a per-user unread total used for badge counts
+ */
+
+import { getFirestore, FieldValue, DocumentData } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+/**
+ * Type-aware preview text for a message (shared by pushes and the conversation list)
+ */
+export function messagePreviewText(message: DocumentData): string {
+  return message.type === 'IMAGE'
+    ? '📷 Sent an image'
+    : message.type === 'AUDIO'
+    ? '🎤 Voice message'
+    : message.text || 'New message';
+}
+
+/**
+ * Apply a newly created message to its conversation
+ *
+ * In one transaction: increments `unreadCounts` for every recipient, resets the
+ * sender's count and marks the message as their last read, updates `lastMessage`
+ * unless a newer message already landed, and bumps each recipient's
+ * `unreadTotal`. Returns the new badge count per recipient. Does nothing (and
+ * returns the current counts) if the message was already counted: tracked in
+ * `lastCountedMessageId`, which only the server writes (clients set
+ * `lastMessage` themselves right after sending).
+ */
+export async function applyNewMessage(
+  conversationId: string,
+  messageId: string,
+  message: DocumentData,
+  recipientIds: string[]
+): Promise<Map<string, number>> {
+  const conversationRef = db.collection('conversations').doc(conversationId);
+  const userRefs = recipientIds.map((id) => db.collection('users').doc(id));
+
+  return db.runTransaction(async (transaction) => {
+    const [conversationDoc, ...userDocs] = await Promise.all([
+      transaction.get(conversationRef),
+      ...userRefs.map((ref) => transaction.get(ref)),
+    ]);
+
+    const conversation = conversationDoc.data() || {};
+
+    // A redelivered event for a message already applied: don't count it twice
+    if (conversation.lastCountedMessageId === messageId) {
+      return new Map(recipientIds.map((id, idx): [string, number] =>
+        [id, Math.max(0, (userDocs[idx].data()?.unreadTotal as number) || 0)]));
+    }
+
+    const timestamp: number = message.timestamp || Date.now();
+    const updates: Record<string, any> = {
+      [`unreadCounts.${message.senderId}`]: 0,
+      [`lastReadMessageId.${message.senderId}`]: messageId,
+      [`lastReadAt.${message.senderId}`]: timestamp,
+      lastCountedMessageId: messageId,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+
+    if (!conversation.lastMessage || (conversation.lastMessage.timestamp || 0) <= timestamp) {
+      updates.lastMessage = {
+        id: messageId,
+        senderId: message.senderId,
+        text: message.text ?? null,
+        type: message.type || 'TEXT',
+        mediaUrl: message.mediaUrl ?? null,
+        timestamp,
+        preview: messagePreviewText(message),
+      };
+    }
+
+    const badges = new Map<string, number>();
+    recipientIds.forEach((id, idx) => {
+      updates[`unreadCounts.${id}`] = FieldValue.increment(1);
+
+      const unreadTotal = Math.max(0, (userDocs[idx].data()?.unreadTotal as number) || 0) + 1;
+      badges.set(id, unreadTotal);
+      if (userDocs[idx].exists) {
+        transaction.update(userRefs[idx], { unreadTotal });
+      }
+    });
+
+    transaction.update(conversationRef, updates);
+    return badges;
+  });
+}
+
+/**
+ * Apply a read receipt: a user has read the message with the given timestamp
+ *
+ * Only moves the user's read marker forward. Recounts their unread messages
+ * (newer than the marker, sent by someone else) and adjusts `unreadTotal` by
+ * the difference.
+ */
+export async function applyReadReceipt(
+  conversationId: string,
+  userId: string,
+  messageId: string,
+  timestamp: number
+): Promise<void> {
+  const conversationRef = db.collection('conversations').doc(conversationId);
+  const userRef = db.collection('users').doc(userId);
+  const messagesRef = conversationRef.collection('messages');
+
+  await db.runTransaction(async (transaction) => {
+    const [conversationDoc, userDoc] = await Promise.all([
+      transaction.get(conversationRef),
+      transaction.get(userRef),
+    ]);
+
+    const conversation = conversationDoc.data();
+    if (!conversation) return;
+
+    const lastReadAt: number = conversation.lastReadAt?.[userId] || 0;
+    if (timestamp < lastReadAt) return;
+
+    const [newer, newerOwn] = await Promise.all([
+      transaction.get(messagesRef.where('timestamp', '>', timestamp).count()),
+      transaction.get(messagesRef.where('senderId', '==', userId).where('timestamp', '>', timestamp).count()),
+    ]);
+    const unread = Math.max(0, newer.data().count - newerOwn.data().count);
+    const previous: number = conversation.unreadCounts?.[userId] || 0;
+
+    const updates: Record<string, any> = {
+      [`unreadCounts.${userId}`]: unread,
+      [`lastReadMessageId.${userId}`]: messageId,
+      [`lastReadAt.${userId}`]: timestamp,
+    };
+
+    // Caught up: any pending @mentions have been seen too
+    if (unread === 0) {
+      updates[`unreadMentions.${userId}`] = 0;
+    }
+
+    transaction.update(conversationRef, updates);
+
+    if (userDoc.exists && unread !== previous) {
+      const unreadTotal = Math.max(0, ((userDoc.data()?.unreadTotal as number) || 0) + unread - previous);
+      transaction.update(userRef, { unreadTotal });
+    }
+  });
+}
+
+/**
+ * Current badge count for a user
+ */
+export async function getBadgeCount(userId: string): Promise<number> {
+  try {
+    const userDoc = await db.collection('users').doc(userId).get();
+    return Math.max(0, (userDoc.data()?.unreadTotal as number) || 0);
+  } catch (error) {
+    console.error(`Failed to read badge count for ${userId}:`, error);
+    return 0;
+  }
+}
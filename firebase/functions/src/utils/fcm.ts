@@ -0,0 +1,238 @@
+/**
+ * FCM Utility Module
+ *
+ * Resolves every registered device token for a user and fans out pushes to them
+ */
+
+import { getFirestore, FieldValue, DocumentReference, Timestamp } from 'firebase-admin/firestore';
+import { getMessaging, MulticastMessage, BatchResponse } from 'firebase-admin/messaging';
+
+const db = getFirestore();
+const messaging = getMessaging();
+
+// sendEachForMulticast accepts at most 500 tokens per call
+const MAX_TOKENS_PER_MULTICAST = 500;
+
+// Error codes meaning the token will never be deliverable again
+const DEAD_TOKEN_ERRORS = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
+// `lastSuccessAt` is refreshed at most this often, not on every push
+const SUCCESS_STAMP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// gRPC status Firestore reports for an update of a missing document
+const NOT_FOUND = 5;
+
+export interface DeviceToken {
+  userId: string;
+  token: string;
+  ref: DocumentReference; // users/{uid}/tokens/{tokenId}, or the user doc for the legacy field
+  legacy: boolean; // true if read from the old single `fcmToken` field
+  lastSuccessAt?: number; // epoch ms of the last stamped delivery
+}
+
+export type DevicePayload = Omit<MulticastMessage, 'tokens'>;
+
+/**
+ * Get all registered device tokens for a user
+ *
+ * Reads the users/{uid}/tokens subcollection and falls back to the legacy
+ * `fcmToken` field for clients that haven't registered there yet.
+ */
+export async function getUserDeviceTokens(userId: string): Promise<DeviceToken[]> {
+  const userRef = db.collection('users').doc(userId);
+  const [userDoc, tokensSnapshot] = await Promise.all([
+    userRef.get(),
+    userRef.collection('tokens').get(),
+  ]);
+
+  const devices: DeviceToken[] = tokensSnapshot.docs
+    .map((doc) => ({
+      userId,
+      token: (doc.data().token as string) || doc.id,
+      ref: doc.ref,
+      legacy: false,
+      lastSuccessAt: (doc.data().lastSuccessAt as Timestamp | undefined)?.toMillis(),
+    }))
+    .filter((device) => device.token !== '');
+
+  const legacyToken = userDoc.data()?.fcmToken as string | undefined;
+  if (legacyToken && !devices.some((device) => device.token === legacyToken)) {
+    devices.push({ userId, token: legacyToken, ref: userRef, legacy: true });
+  }
+
+  return devices;
+}
+
+/**
+ * Get device tokens for several users (fetched individually to avoid 'in' query limits)
+ */
+export async function getDeviceTokens(userIds: string[]): Promise<DeviceToken[]> {
+  const perUser = await Promise.all(userIds.map((id) => getUserDeviceTokens(id)));
+  return perUser.flat();
+}
+
+/**
+ * Send the same payload to every device, then prune dead tokens and
+ * record per-token delivery timestamps
+ */
+export async function sendToDevices(
+  devices: DeviceToken[],
+  payload: DevicePayload
+): Promise<{ successCount: number; failureCount: number }> {
+  let successCount = 0;
+  let failureCount = 0;
+
+  for (let i = 0; i < devices.length; i += MAX_TOKENS_PER_MULTICAST) {
+    const chunk = devices.slice(i, i + MAX_TOKENS_PER_MULTICAST);
+    const response = await messaging.sendEachForMulticast({
+      ...payload,
+      tokens: chunk.map((device) => device.token),
+    });
+
+    successCount += response.successCount;
+    failureCount += response.failureCount;
+
+    await recordDeliveryResults(chunk, response);
+  }
+
+  return { successCount, failureCount };
+}
+
+/**
+ * Delete token documents FCM rejected as dead and stamp successful ones whose
+ * stamp is out of date
+ */
+async function recordDeliveryResults(devices: DeviceToken[], response: BatchResponse): Promise<void> {
+  const now = Date.now();
+  const stale: DeviceToken[] = [];
+  const dead: DeviceToken[] = [];
+
+  response.responses.forEach((resp, idx) => {
+    const device = devices[idx];
+
+    if (resp.success) {
+      if (!device.legacy && now - (device.lastSuccessAt || 0) >= SUCCESS_STAMP_INTERVAL_MS) {
+        stale.push(device);
+      }
+      return;
+    }
+
+    const code = resp.error?.code;
+    if (!code || !DEAD_TOKEN_ERRORS.includes(code)) {
+      console.log(`Transient FCM failure for user ${device.userId}: ${code}`);
+      return;
+    }
+
+    dead.push(device);
+  });
+
+  // One by one, so a failed write can't hold back the others
+  await Promise.all([
+    ...dead.map(async (device) => {
+      console.log(`Pruning dead FCM token for user ${device.userId}: ${device.token.substring(0, 20)}...`);
+      try {
+        await pruneToken(device);
+      } catch (error) {
+        console.error(`Failed to prune FCM token for user ${device.userId}:`, error);
+      }
+    }),
+    ...stale.map(async (device) => {
+      try {
+        await device.ref.update({ lastSuccessAt: FieldValue.serverTimestamp() });
+      } catch (error: any) {
+        // The token doc may have been removed concurrently; nothing to stamp then
+        if (error?.code !== NOT_FOUND) {
+          console.error(`Failed to record FCM delivery for user ${device.userId}:`, error);
+        }
+      }
+    }),
+  ]);
+}
+
+/**
+ * Remove a dead token: its tokens doc, and the legacy `fcmToken` field if it
+ * still holds the same token (it's skipped when reading tokens, so it would
+ * otherwise come back once the doc is gone)
+ */
+async function pruneToken(device: DeviceToken): Promise<void> {
+  if (!device.legacy) {
+    await device.ref.delete(); // No-op if already gone
+  }
+
+  const userRef = db.collection('users').doc(device.userId);
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (userDoc.data()?.fcmToken === device.token) {
+      transaction.update(userRef, { fcmToken: null });
+    }
+  });
+}
+
+/**
+ * Build a low-priority, data-only payload that updates badges without alerting
+ */
+export function silentPayload(data: Record<string, string>): DevicePayload {
+  return {
+    data,
+    android: {
+      priority: 'normal',
+    },
+    apns: {
+      headers: {
+        'apns-priority': '5',
+        'apns-push-type': 'background',
+      },
+      payload: {
+        aps: {
+          'content-available': 1,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Tag a payload so newer pushes with the same key replace older ones on the device
+ */
+export function withCollapseKey(payload: DevicePayload, collapseKey: string): DevicePayload {
+  return {
+    ...payload,
+    android: {
+      ...payload.android,
+      collapseKey,
+    },
+    apns: {
+      ...payload.apns,
+      headers: {
+        ...payload.apns?.headers,
+        'apns-collapse-id': collapseKey,
+      },
+    },
+  };
+}
+
+/**
+ * Attach an app icon badge count (data field for Android, aps.badge for iOS)
+ */
+export function withBadge(payload: DevicePayload, badge: number): DevicePayload {
+  return {
+    ...payload,
+    data: {
+      ...payload.data,
+      badge: String(badge),
+    },
+    apns: {
+      ...payload.apns,
+      payload: {
+        ...payload.apns?.payload,
+        aps: {
+          ...payload.apns?.payload?.aps,
+          badge,
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * JSON Stream Utility
+ *
+ * Picks complete items out of a JSON array while the document is still being
+ * streamed, e.g. each reply of `{"replies": [{...}, {...}]}` as soon as its
+ * closing brace arrives.
+ */
+
+/**
+ * Returns a function to feed text deltas into. `onItem` is called with each
+ * object element of the first array in the document, parsed, in order.
+ * Elements that aren't objects or don't parse are skipped.
+ */
+export function createArrayItemParser<T = unknown>(onItem: (item: T) => void): (delta: string) => void {
+  let depth = 0; // Nesting depth of objects/arrays
+  let arrayDepth = -1; // Depth inside the first array, once found
+  let inString = false;
+  let escaped = false;
+  let item = '';
+
+  return (delta: string) => {
+    for (const char of delta) {
+      const collecting = arrayDepth >= 0 && depth > arrayDepth;
+      if (collecting) item += char;
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (char === '[' && arrayDepth < 0) {
+          arrayDepth = depth + 1;
+        } else if (arrayDepth >= 0 && depth === arrayDepth && char === '{') {
+          item = char; // Start of an element
+        }
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (arrayDepth >= 0 && depth === arrayDepth && char === '}') {
+          try {
+            onItem(JSON.parse(item) as T);
+          } catch {
+            // Malformed element; the final parse of the whole document decides
+          }
+          item = '';
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,507 @@
+/**
+ * Local Language Identification
+ *
+ * Identifies a text's language without a network call. Most scripts map to
+ * one language (Hangul, Thai, Greek...) or are split by marker letters
+ * (Cyrillic, Arabic, CJK); Latin-script text is scored against character
+ * trigram profiles built from the samples in languageProfiles.
+ *
+ * Returns a confidence and alternative candidates so callers can fall back to
+ * the model for the ambiguous cases (typically short Latin-script texts).
+ * identifySpans splits mixed-language text (code-switching) into runs.
+ */
+
+import { LATIN_SAMPLES } from './languageProfiles';
+import { primaryLanguage, toLanguageTag } from './languageTags';
+
+// At or above this a result is trusted without asking the model
+export const CONFIDENT_THRESHOLD = 0.8;
+
+// A sender hint multiplies its language's odds by this much
+const HINT_PRIOR = 4;
+
+// Trigrams beyond this count stop sharpening the distribution (tiny profiles overfit)
+const EVIDENCE_CAP = 20;
+
+// Share of the text's trigrams the best profile must know for full confidence
+const MIN_PROFILE_COVERAGE = 0.7;
+
+const MAX_CANDIDATES = 3;
+
+// Letters after which a script's default language is trusted without marker letters
+const LONG_TEXT_LETTERS = 20;
+
+// Segments shorter than this join a neighbouring span instead of standing alone
+const MIN_SPAN_LETTERS = 6;
+
+export interface LanguageCandidate {
+  language: string; // ISO 639-1
+  tag: string; // BCP-47, with a script subtag where it matters ('sr-Latn')
+  confidence: number; // 0.0-1.0
+}
+
+export interface LanguageIdentification {
+  language: string | null; // null when the text has no letters
+  tag: string | null; // BCP-47 tag for `language` in the detected script
+  confidence: number;
+  candidates: LanguageCandidate[]; // Best first, including `language`
+  script: string | null; // ISO 15924 code of the dominant script, e.g. 'Latn', 'Cyrl', 'Hant'
+  letterCount: number;
+  reliable: boolean; // confidence >= CONFIDENT_THRESHOLD
+}
+
+export interface LanguageSpan {
+  start: number; // UTF-16 offset into the text
+  end: number; // Exclusive; spans are contiguous and cover the whole text
+  text: string;
+  language: string; // BCP-47 tag
+  script: string | null; // ISO 15924
+  confidence: number;
+}
+
+// A candidate before tagging and confidence scaling
+type ScoredLanguage = Pick<LanguageCandidate, 'language' | 'confidence'>;
+
+// Unicode script names with their ISO 15924 codes
+const SCRIPTS = [
+  ['Latin', 'Latn'], ['Cyrillic', 'Cyrl'], ['Arabic', 'Arab'], ['Han', 'Hani'], ['Hiragana', 'Hira'],
+  ['Katakana', 'Kana'], ['Hangul', 'Hang'], ['Thai', 'Thai'], ['Hebrew', 'Hebr'], ['Greek', 'Grek'],
+  ['Devanagari', 'Deva'], ['Bengali', 'Beng'], ['Tamil', 'Taml'], ['Telugu', 'Telu'], ['Gujarati', 'Gujr'],
+  ['Kannada', 'Knda'], ['Malayalam', 'Mlym'], ['Gurmukhi', 'Guru'], ['Armenian', 'Armn'], ['Georgian', 'Geor'],
+  ['Ethiopic', 'Ethi'], ['Khmer', 'Khmr'], ['Lao', 'Laoo'], ['Myanmar', 'Mymr'], ['Sinhala', 'Sinh'],
+].map(([script, code]) => ({ script, code, pattern: new RegExp(`\\p{Script=${script}}`, 'u') }));
+
+const SCRIPT_CODES: Record<string, string> = {
+  ...Object.fromEntries(SCRIPTS.map(({ script, code }) => [script, code])),
+  Japanese: 'Jpan',
+};
+
+/**
+ * Common characters that differ between simplified and traditional Chinese
+ */
+const SIMPLIFIED_HAN = /[这们说为个来时会过还没对么国发经后现见问动学车东气长开关边头买卖钱书电话节业让认识请谢师听记]/gu;
+const TRADITIONAL_HAN = /[這們說為個來時會過還沒對麼國發經後現見問動學車東氣長開關邊頭買賣錢書電話節業讓認識請謝師聽記]/gu;
+
+// Line breaks and CJK clause punctuation end a segment on their own
+const CJK_CLAUSE_BREAK = /[。！？；、\n]/u;
+// Clause punctuation that ends a segment when followed by whitespace ("3.5" and URLs don't split)
+const CLAUSE_BREAK = /[.!?;:,]/u;
+
+// Scripts used by a single language
+const SINGLE_LANGUAGE_SCRIPTS: Record<string, string> = {
+  Hangul: 'ko',
+  Thai: 'th',
+  Hebrew: 'he',
+  Greek: 'el',
+  Bengali: 'bn',
+  Tamil: 'ta',
+  Telugu: 'te',
+  Gujarati: 'gu',
+  Kannada: 'kn',
+  Malayalam: 'ml',
+  Gurmukhi: 'pa',
+  Armenian: 'hy',
+  Georgian: 'ka',
+  Ethiopic: 'am',
+  Khmer: 'km',
+  Lao: 'lo',
+  Myanmar: 'my',
+  Sinhala: 'si',
+};
+
+/**
+ * Letters that single out one language within a shared script
+ */
+const SCRIPT_MARKERS: Record<string, Array<{ language: string; pattern: RegExp }>> = {
+  Cyrillic: [
+    { language: 'uk', pattern: /[іїєґ]/gi },
+    { language: 'be', pattern: /[ў]/gi },
+    { language: 'sr', pattern: /[ђјљњћџ]/gi },
+    { language: 'mk', pattern: /[ѓќѕ]/gi },
+    { language: 'kk', pattern: /[әғқңөұүһ]/gi },
+  ],
+  Arabic: [
+    { language: 'ur', pattern: /[ٹڈڑںےھ]/g },
+    { language: 'fa', pattern: /[پچژگکی]/g },
+  ],
+};
+
+// The language a shared script defaults to without markers, and its usual alternatives
+const SCRIPT_DEFAULTS: Record<string, { language: string; alternatives: string[] }> = {
+  Cyrillic: { language: 'ru', alternatives: ['uk', 'bg'] },
+  Arabic: { language: 'ar', alternatives: ['fa', 'ur'] },
+  Devanagari: { language: 'hi', alternatives: ['mr', 'ne'] },
+};
+
+interface TrigramProfile {
+  counts: Map<string, number>;
+  total: number;
+}
+
+let latinProfiles: Map<string, TrigramProfile> | null = null;
+let latinVocabularySize = 0;
+
+/**
+ * Character trigrams of each word, padded with spaces so word starts and ends count
+ */
+function trigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const words = text.toLowerCase().normalize('NFC').split(/[^\p{L}\p{M}']+/u).filter(Boolean);
+
+  words.forEach((word) => {
+    const padded = Array.from(` ${word} `);
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const trigram = padded.slice(i, i + 3).join('');
+      counts.set(trigram, (counts.get(trigram) || 0) + 1);
+    }
+  });
+
+  return counts;
+}
+
+function getLatinProfiles(): Map<string, TrigramProfile> {
+  if (!latinProfiles) {
+    latinProfiles = new Map();
+    const vocabulary = new Set<string>();
+
+    Object.entries(LATIN_SAMPLES).forEach(([language, sample]) => {
+      const counts = trigrams(sample);
+      let total = 0;
+      counts.forEach((count, trigram) => {
+        total += count;
+        vocabulary.add(trigram);
+      });
+      latinProfiles!.set(language, { counts, total });
+    });
+
+    latinVocabularySize = vocabulary.size;
+  }
+  return latinProfiles;
+}
+
+/**
+ * Count letters per script; returns the dominant script and its share of letters
+ */
+function dominantScript(text: string): { script: string | null; share: number; letters: number; counts: Map<string, number> } {
+  const counts = new Map<string, number>();
+  let letters = 0;
+
+  for (const char of text) {
+    if (!/\p{L}/u.test(char)) continue;
+    letters++;
+    const match = SCRIPTS.find(({ pattern }) => pattern.test(char));
+    const script = match ? match.script : 'Other';
+    counts.set(script, (counts.get(script) || 0) + 1);
+  }
+
+  // Kana and Han together are Japanese; count them as one script
+  const japanese = (counts.get('Hiragana') || 0) + (counts.get('Katakana') || 0);
+  if (japanese > 0) {
+    counts.set('Japanese', japanese + (counts.get('Han') || 0));
+    ['Hiragana', 'Katakana', 'Han'].forEach((script) => counts.delete(script));
+  }
+
+  let script: string | null = null;
+  let best = 0;
+  for (const [name, count] of counts) {
+    if (count > best) {
+      best = count;
+      script = name;
+    }
+  }
+
+  return { script, share: letters > 0 ? best / letters : 0, letters, counts };
+}
+
+/**
+ * ISO 15924 code for a script found by dominantScript; Han is refined to
+ * Hans/Hant when the text has characters that tell them apart
+ */
+function scriptCode(script: string | null, text: string): string | null {
+  if (!script || !SCRIPT_CODES[script]) return null;
+  if (script !== 'Han') return SCRIPT_CODES[script];
+
+  const simplified = (text.match(SIMPLIFIED_HAN) || []).length;
+  const traditional = (text.match(TRADITIONAL_HAN) || []).length;
+  if (simplified > traditional) return 'Hans';
+  if (traditional > simplified) return 'Hant';
+  return 'Hani';
+}
+
+/**
+ * ISO 15924 code of a text's dominant script; null if it has no letters
+ */
+export function identifyScript(text: string): string | null {
+  return scriptCode(dominantScript(text).script, text);
+}
+
+/**
+ * Tag for a language identified in `script`; undetermined Han adds no subtag
+ */
+function tagFor(language: string, script: string | null): string {
+  return toLanguageTag(language, script === 'Hani' ? null : script) ?? language;
+}
+
+/**
+ * Turn relative weights into a normalized, hint-adjusted candidate list
+ */
+function toCandidates(weights: Map<string, number>, hint: string | undefined): ScoredLanguage[] {
+  if (hint && weights.has(hint)) {
+    weights.set(hint, weights.get(hint)! * HINT_PRIOR);
+  }
+
+  const total = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  return Array.from(weights.entries())
+    .map(([language, weight]) => ({ language, confidence: total > 0 ? weight / total : 0 }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Candidates for a script shared by several languages, from marker letters
+ */
+function scriptCandidates(script: string, text: string, letters: number, hint: string | undefined): ScoredLanguage[] {
+  const defaults = SCRIPT_DEFAULTS[script];
+  const weights = new Map<string, number>([[defaults.language, 1]]);
+  // The longer the text, the likelier a marker would have shown up if it were another language
+  defaults.alternatives.forEach((language) => weights.set(language, letters >= LONG_TEXT_LETTERS ? 0.03 : 0.15));
+
+  (SCRIPT_MARKERS[script] || []).forEach(({ language, pattern }) => {
+    const hits = (text.match(pattern) || []).length;
+    if (hits > 0) {
+      // Markers are near-conclusive; a couple settle it
+      weights.set(language, (weights.get(language) || 0) + 3 * Math.min(hits, 3));
+    }
+  });
+
+  // Persian and Urdu also use every Arabic letter, so Arabic needs their absence
+  if (script === 'Arabic' && ((weights.get('fa') || 0) > 1 || (weights.get('ur') || 0) > 1)) {
+    weights.set('ar', 0.2);
+  }
+  // Bulgarian: hard sign as a vowel, no ы/э
+  if (script === 'Cyrillic' && /ъ/i.test(text) && !/[ыэ]/i.test(text)) {
+    weights.set('bg', (weights.get('bg') || 0) + 2);
+  }
+
+  return toCandidates(weights, hint);
+}
+
+/**
+ * Naive Bayes over trigram profiles, tempered so short texts stay uncertain
+ */
+function latinCandidates(text: string, hint: string | undefined): { candidates: ScoredLanguage[]; coverage: number } {
+  const profiles = getLatinProfiles();
+  const input = trigrams(text);
+  const inputTotal = Array.from(input.values()).reduce((sum, count) => sum + count, 0);
+  if (inputTotal === 0) return { candidates: [], coverage: 0 };
+
+  const averages = new Map<string, number>();
+  profiles.forEach((profile, language) => {
+    let logLikelihood = 0;
+    input.forEach((count, trigram) => {
+      const seen = profile.counts.get(trigram) || 0;
+      logLikelihood += count * Math.log((seen + 1) / (profile.total + latinVocabularySize));
+    });
+    averages.set(language, logLikelihood / inputTotal);
+  });
+
+  const evidence = Math.min(inputTotal, EVIDENCE_CAP);
+  const best = Math.max(...averages.values());
+  const weights = new Map<string, number>();
+  averages.forEach((average, language) => {
+    weights.set(language, Math.exp((average - best) * evidence));
+  });
+
+  const candidates = toCandidates(weights, hint);
+
+  // Text in a language without a profile still picks the nearest one; an
+  // unfamiliar trigram mix lowers the confidence instead
+  const topProfile = profiles.get(candidates[0].language)!;
+  let known = 0;
+  input.forEach((count, trigram) => {
+    if (topProfile.counts.has(trigram)) known += count;
+  });
+
+  return { candidates, coverage: known / inputTotal };
+}
+
+/**
+ * Identify the language of a text. `hint` (e.g. the sender's preferred
+ * language) acts as a prior when the evidence is split.
+ */
+export function identifyLanguage(text: string, hint?: string): LanguageIdentification {
+  // URLs, mentions and emails carry no language signal
+  const cleaned = text
+    .replace(/https?:\/\/\S+|www\.\S+/gi, ' ')
+    .replace(/\S+@\S+\.\S+/g, ' ')
+    .replace(/@\w+/g, ' ');
+
+  const normalizedHint = hint ? primaryLanguage(hint) : undefined;
+  const { script, share, letters } = dominantScript(cleaned);
+
+  if (!script || letters === 0) {
+    return { language: null, tag: null, confidence: 0, candidates: [], script: null, letterCount: 0, reliable: false };
+  }
+
+  let candidates: ScoredLanguage[];
+  let scale = share; // Mixed-script text is less certain
+
+  if (SINGLE_LANGUAGE_SCRIPTS[script]) {
+    candidates = toCandidates(new Map([[SINGLE_LANGUAGE_SCRIPTS[script], 1]]), undefined);
+  } else if (script === 'Japanese') {
+    candidates = toCandidates(new Map([['ja', 1]]), undefined);
+  } else if (script === 'Han') {
+    // Kanji-only Japanese exists but is rare outside very short texts
+    candidates = toCandidates(new Map([['zh', letters >= 4 ? 0.9 : 0.7], ['ja', letters >= 4 ? 0.1 : 0.3]]), normalizedHint);
+  } else if (SCRIPT_DEFAULTS[script]) {
+    candidates = scriptCandidates(script, cleaned, letters, normalizedHint);
+  } else if (script === 'Latin') {
+    const latin = latinCandidates(cleaned, normalizedHint);
+    candidates = latin.candidates;
+    scale *= Math.min(1, latin.coverage / MIN_PROFILE_COVERAGE);
+  } else {
+    candidates = [];
+  }
+
+  const code = scriptCode(script, cleaned);
+
+  if (candidates.length === 0) {
+    return { language: null, tag: null, confidence: 0, candidates: [], script: code, letterCount: letters, reliable: false };
+  }
+
+  const scaled = candidates
+    .slice(0, MAX_CANDIDATES)
+    .map(({ language, confidence }) => ({
+      language,
+      tag: tagFor(language, code),
+      confidence: Math.round(confidence * scale * 1000) / 1000,
+    }));
+  const top = scaled[0];
+
+  return {
+    language: top.language,
+    tag: top.tag,
+    confidence: top.confidence,
+    candidates: scaled,
+    script: code,
+    letterCount: letters,
+    reliable: top.confidence >= CONFIDENT_THRESHOLD,
+  };
+}
+
+/**
+ * Script group used to split segments; kana and Han stay together so
+ * Japanese isn't cut at every kanji
+ */
+function segmentScript(char: string): string {
+  const match = SCRIPTS.find(({ pattern }) => pattern.test(char));
+  if (!match) return 'Other';
+  return ['Han', 'Hiragana', 'Katakana'].includes(match.script) ? 'CJK' : match.script;
+}
+
+/**
+ * Split text into segments at script changes and clause punctuation. Each
+ * boundary falls on the next segment's first letter, so trailing spaces and
+ * punctuation stay with the segment they close.
+ */
+function segmentText(text: string): Array<{ start: number; end: number }> {
+  const segments: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  let index = 0;
+  let lastScript: string | null = null;
+  let punctuation = false;
+  let clauseEnded = false;
+
+  for (const char of text) {
+    if (/\p{L}/u.test(char)) {
+      const script = segmentScript(char);
+      if (index > start && lastScript && (clauseEnded || script !== lastScript)) {
+        segments.push({ start, end: index });
+        start = index;
+      }
+      lastScript = script;
+      punctuation = false;
+      clauseEnded = false;
+    } else if (CJK_CLAUSE_BREAK.test(char)) {
+      clauseEnded = true;
+    } else if (CLAUSE_BREAK.test(char)) {
+      punctuation = true;
+    } else if (/\s/u.test(char)) {
+      if (punctuation) clauseEnded = true;
+    } else {
+      punctuation = false;
+    }
+    index += char.length;
+  }
+
+  if (index > start) segments.push({ start, end: index });
+  return segments;
+}
+
+/**
+ * Split a text into contiguous single-language spans. Segments too short or
+ * uncertain to stand alone take the language of a neighbour (or of the whole
+ * text), and neighbouring segments in the same language are merged, so a
+ * single-language text comes back as one span.
+ */
+export function identifySpans(text: string, hint?: string): LanguageSpan[] {
+  const overall = identifyLanguage(text, hint);
+  if (!overall.tag) return [];
+
+  const pieces = segmentText(text).map(({ start, end }) => {
+    const result = identifyLanguage(text.slice(start, end), hint);
+    const settled = result.tag !== null && result.reliable && result.letterCount >= MIN_SPAN_LETTERS;
+    return {
+      start,
+      end,
+      tag: settled ? result.tag : null,
+      confidence: settled ? result.confidence : 0,
+      letters: result.letterCount,
+    };
+  });
+
+  // Unsettled segments follow the previous settled one, else the next, else the whole text
+  pieces.forEach((piece, index) => {
+    if (piece.tag) return;
+    const neighbour = pieces.slice(0, index).reverse().find((other) => other.tag) ||
+      pieces.slice(index + 1).find((other) => other.tag);
+    piece.tag = neighbour ? neighbour.tag : overall.tag;
+    piece.confidence = neighbour ? neighbour.confidence : overall.confidence;
+  });
+
+  const merged: Array<{ start: number; end: number; tag: string; weighted: number; letters: number }> = [];
+  pieces.forEach((piece) => {
+    const last = merged[merged.length - 1];
+    if (last && last.tag === piece.tag) {
+      last.end = piece.end;
+      last.weighted += piece.confidence * piece.letters;
+      last.letters += piece.letters;
+    } else {
+      merged.push({
+        start: piece.start,
+        end: piece.end,
+        tag: piece.tag!,
+        weighted: piece.confidence * piece.letters,
+        letters: piece.letters,
+      });
+    }
+  });
+
+  return merged.map(({ start, end, tag, weighted, letters }) => {
+    const spanText = text.slice(start, end);
+    return {
+      start,
+      end,
+      text: spanText,
+      language: tag,
+      script: identifyScript(spanText),
+      confidence: letters > 0 ? Math.round((weighted / letters) * 1000) / 1000 : 0,
+    };
+  });
+}
+
+/**
+ * Whether spans name more than one language (script variants count as one)
+ */
+export function isMixedLanguage(spans: LanguageSpan[]): boolean {
+  return new Set(spans.map((span) => primaryLanguage(span.language))).size > 1;
+}
@@ -0,0 +1,131 @@
+/**
+ * Language Profiles
+ *
+ * Sample text for the Latin-script languages the local identifier
+ * distinguishes by character trigrams (see languageId). Samples are everyday
+ * chat-style sentences rich in function words, which dominate short messages.
+ * Languages in other scripts are identified by script alone.
+ */
+
+export const LATIN_SAMPLES: Record<string, string> = {
+  en: `Hey, how are you doing today? I think we should meet at the station before the movie starts.
+    Thanks for letting me know, that sounds good to me. What time do you want to have dinner with them?
+    I will call you when I get home, but I have to finish this work first. Did you see the message that she
+    sent this morning? It was really funny and we were all laughing about it. Let me know if there is anything
+    I can do for you and your family this weekend. They said the weather would be nice, so maybe we could go out.`,
+
+  es: `Hola, ¿cómo estás hoy? Creo que deberíamos vernos en la estación antes de que empiece la película.
+    Gracias por avisarme, me parece muy bien. ¿A qué hora quieres cenar con ellos? Te llamo cuando llegue a
+    casa, pero primero tengo que terminar este trabajo. ¿Viste el mensaje que ella mandó esta mañana? Fue muy
+    gracioso y todos nos reímos mucho. Dime si hay algo que pueda hacer por ti y por tu familia este fin de
+    semana. Dijeron que el tiempo va a estar bueno, así que tal vez podamos salir un rato. Mañana también.`,
+
+  fr: `Salut, comment ça va aujourd'hui ? Je pense qu'on devrait se retrouver à la gare avant que le film
+    commence. Merci de m'avoir prévenu, ça me va très bien. À quelle heure est-ce que tu veux dîner avec eux ?
+    Je t'appelle quand je rentre à la maison, mais je dois d'abord finir ce travail. Tu as vu le message
+    qu'elle a envoyé ce matin ? C'était vraiment drôle et on a tous beaucoup ri. Dis-moi s'il y a quelque
+    chose que je peux faire pour toi et ta famille ce week-end. Ils ont dit qu'il ferait beau, donc peut-être.`,
+
+  de: `Hallo, wie geht es dir heute? Ich glaube, wir sollten uns am Bahnhof treffen, bevor der Film anfängt.
+    Danke, dass du mir Bescheid gesagt hast, das klingt gut. Um wie viel Uhr willst du mit ihnen zu Abend
+    essen? Ich rufe dich an, wenn ich zu Hause bin, aber ich muss zuerst diese Arbeit fertig machen. Hast du
+    die Nachricht gesehen, die sie heute Morgen geschickt hat? Das war wirklich lustig und wir haben alle
+    darüber gelacht. Sag mir, ob ich etwas für dich und deine Familie am Wochenende tun kann. Das Wetter wird schön.`,
+
+  it: `Ciao, come stai oggi? Penso che dovremmo vederci alla stazione prima che inizi il film. Grazie per
+    avermelo detto, per me va benissimo. A che ora vuoi cenare con loro? Ti chiamo quando arrivo a casa, ma
+    prima devo finire questo lavoro. Hai visto il messaggio che lei ha mandato stamattina? Era davvero
+    divertente e abbiamo riso tutti tanto. Dimmi se c'è qualcosa che posso fare per te e per la tua famiglia
+    questo fine settimana. Hanno detto che il tempo sarà bello, quindi forse potremmo uscire un po' insieme.`,
+
+  pt: `Olá, tudo bem com você hoje? Acho que a gente devia se encontrar na estação antes de o filme começar.
+    Obrigado por me avisar, para mim está ótimo. A que horas você quer jantar com eles? Eu te ligo quando
+    chegar em casa, mas primeiro tenho que terminar este trabalho. Você viu a mensagem que ela mandou hoje de
+    manhã? Foi muito engraçado e todos nós rimos bastante. Me diz se tem alguma coisa que eu possa fazer por
+    você e pela sua família neste fim de semana. Disseram que o tempo vai estar bom, então talvez não chova.`,
+
+  nl: `Hoi, hoe gaat het vandaag met je? Ik denk dat we elkaar bij het station moeten zien voordat de film
+    begint. Bedankt dat je het me laat weten, dat klinkt goed. Hoe laat wil je met hen eten? Ik bel je als ik
+    thuis ben, maar ik moet eerst dit werk afmaken. Heb je het bericht gezien dat ze vanochtend stuurde? Het
+    was echt grappig en we hebben er allemaal om gelachen. Laat me weten of ik iets voor jou en je familie kan
+    doen dit weekend. Ze zeiden dat het mooi weer wordt, dus misschien kunnen we naar buiten gaan.`,
+
+  sv: `Hej, hur mår du idag? Jag tycker att vi borde träffas på stationen innan filmen börjar. Tack för att
+    du sa till, det låter bra för mig. Vilken tid vill du äta middag med dem? Jag ringer dig när jag kommer
+    hem, men jag måste göra klart det här jobbet först. Såg du meddelandet som hon skickade i morse? Det var
+    jättekul och vi skrattade alla åt det. Säg till om det finns något jag kan göra för dig och din familj i
+    helgen. De sa att vädret skulle bli fint, så vi kanske kan gå ut en stund och äta glass.`,
+
+  da: `Hej, hvordan har du det i dag? Jeg synes, vi skal mødes på stationen, før filmen starter. Tak fordi du
+    sagde det, det lyder godt for mig. Hvornår vil du spise aftensmad med dem? Jeg ringer til dig, når jeg
+    kommer hjem, men jeg skal lige gøre det her arbejde færdigt først. Så du beskeden, som hun sendte i
+    morges? Den var virkelig sjov, og vi grinede alle sammen af den. Sig til, hvis der er noget, jeg kan gøre
+    for dig og din familie i weekenden. De sagde, at vejret bliver godt, så måske kan vi gå en tur ud.`,
+
+  no: `Hei, hvordan har du det i dag? Jeg synes vi burde møtes på stasjonen før filmen begynner. Takk for at
+    du sa ifra, det høres bra ut for meg. Når vil du spise middag med dem? Jeg ringer deg når jeg kommer hjem,
+    men jeg må gjøre ferdig denne jobben først. Så du meldingen hun sendte i morges? Den var veldig morsom, og
+    vi lo alle sammen av den. Si ifra hvis det er noe jeg kan gjøre for deg og familien din i helgen. De sa at
+    været skulle bli fint, så kanskje vi kan gå ut en tur og kjøpe noe å spise.`,
+
+  fi: `Hei, mitä sinulle kuuluu tänään? Minusta meidän pitäisi tavata asemalla ennen kuin elokuva alkaa.
+    Kiitos kun kerroit, se kuulostaa minusta hyvältä. Mihin aikaan haluat syödä illallista heidän kanssaan?
+    Soitan sinulle kun pääsen kotiin, mutta minun täytyy ensin tehdä tämä työ valmiiksi. Näitkö viestin
+    jonka hän lähetti tänä aamuna? Se oli tosi hauska ja me kaikki nauroimme sille. Kerro jos voin tehdä
+    jotain sinun ja perheesi puolesta viikonloppuna. He sanoivat että sää on kaunis, joten ehkä voimme lähteä ulos.`,
+
+  pl: `Cześć, jak się dzisiaj masz? Myślę, że powinniśmy spotkać się na dworcu, zanim zacznie się film.
+    Dzięki, że dałeś mi znać, to brzmi dobrze. O której chcesz zjeść z nimi kolację? Zadzwonię do ciebie,
+    jak wrócę do domu, ale najpierw muszę skończyć tę pracę. Widziałeś wiadomość, którą ona wysłała dziś
+    rano? Była naprawdę śmieszna i wszyscy się z tego śmialiśmy. Daj mi znać, czy mogę coś zrobić dla ciebie
+    i twojej rodziny w ten weekend. Mówili, że pogoda będzie ładna, więc może wyjdziemy gdzieś razem.`,
+
+  cs: `Ahoj, jak se dnes máš? Myslím, že bychom se měli sejít na nádraží, než začne film. Díky, že jsi mi dal
+    vědět, to zní dobře. V kolik hodin chceš s nimi jít na večeři? Zavolám ti, až přijdu domů, ale nejdřív
+    musím dodělat tuhle práci. Viděl jsi zprávu, kterou ráno poslala? Byla opravdu vtipná a všichni jsme se
+    tomu smáli. Dej mi vědět, jestli můžu něco udělat pro tebe a tvoji rodinu o víkendu. Říkali, že bude
+    hezké počasí, takže možná můžeme jít ven a dát si něco dobrého k jídlu.`,
+
+  hr: `Bok, kako si danas? Mislim da bismo se trebali naći na kolodvoru prije nego što film počne. Hvala
+    što si mi javio, to mi zvuči dobro. U koliko sati želiš večerati s njima? Nazvat ću te kad dođem kući, ali
+    prvo moram završiti ovaj posao. Jesi li vidio poruku koju je jutros poslala? Bilo je stvarno smiješno i
+    svi smo se smijali. Javi mi ako mogu nešto učiniti za tebe i tvoju obitelj ovaj vikend. Rekli su da će
+    vrijeme biti lijepo, pa možda možemo malo izaći van i nešto pojesti.`,
+
+  // Serbian in Latin script; Cyrillic Serbian is told apart by its letters (see languageId)
+  sr: `Zdravo, kako si danas? Mislim da treba da se nađemo na stanici pre nego što film počne. Hvala što si
+    mi javio, to mi zvuči dobro. U koliko sati hoćeš da večeraš sa njima? Pozvaću te kad stignem kući, ali
+    prvo moram da završim ovaj posao. Da li si video poruku koju je jutros poslala? Bilo je stvarno smešno i
+    svi smo se smejali. Javi mi ako mogu nešto da uradim za tebe i tvoju porodicu ovog vikenda. Rekli su da
+    će vreme biti lepo, pa možda možemo malo da izađemo napolje.`,
+
+  tr: `Merhaba, bugün nasılsın? Bence film başlamadan önce istasyonda buluşmalıyız. Haber verdiğin için
+    teşekkürler, bana uyar. Onlarla akşam yemeğini saat kaçta yemek istiyorsun? Eve gelince seni ararım ama
+    önce bu işi bitirmem gerekiyor. Bu sabah gönderdiği mesajı gördün mü? Gerçekten çok komikti ve hepimiz
+    buna güldük. Bu hafta sonu senin ve ailen için yapabileceğim bir şey varsa bana söyle. Havanın güzel
+    olacağını söylediler, belki biraz dışarı çıkarız ve bir şeyler yeriz.`,
+
+  ro: `Salut, ce mai faci astăzi? Cred că ar trebui să ne vedem la gară înainte să înceapă filmul. Mulțumesc
+    că mi-ai spus, mi se pare foarte bine. La ce oră vrei să iei cina cu ei? Te sun când ajung acasă, dar
+    mai întâi trebuie să termin treaba asta. Ai văzut mesajul pe care l-a trimis ea azi dimineață? A fost
+    foarte amuzant și am râs cu toții. Spune-mi dacă pot să fac ceva pentru tine și familia ta în weekendul
+    acesta. Au zis că vremea va fi frumoasă, așa că poate ieșim puțin afară împreună.`,
+
+  hu: `Szia, hogy vagy ma? Szerintem találkozzunk az állomáson, mielőtt elkezdődik a film. Köszönöm, hogy
+    szóltál, ez nekem jó. Hánykor szeretnél velük vacsorázni? Felhívlak, amikor hazaérek, de előbb be kell
+    fejeznem ezt a munkát. Láttad az üzenetet, amit ma reggel küldött? Nagyon vicces volt, és mindannyian
+    nevettünk rajta. Szólj, ha tudok valamit tenni érted és a családodért a hétvégén. Azt mondták, hogy szép
+    idő lesz, úgyhogy talán kimehetnénk egy kicsit sétálni együtt.`,
+
+  id: `Halo, apa kabar hari ini? Menurut saya kita harus bertemu di stasiun sebelum filmnya mulai. Terima
+    kasih sudah memberi tahu, itu bagus untuk saya. Jam berapa kamu mau makan malam dengan mereka? Saya akan
+    menelepon kamu kalau sudah sampai di rumah, tapi saya harus menyelesaikan pekerjaan ini dulu. Apakah kamu
+    sudah melihat pesan yang dia kirim tadi pagi? Itu benar-benar lucu dan kami semua tertawa. Beri tahu saya
+    kalau ada yang bisa saya lakukan untuk kamu dan keluargamu akhir pekan ini. Katanya cuacanya akan cerah.`,
+
+  vi: `Chào bạn, hôm nay bạn thế nào? Mình nghĩ chúng ta nên gặp nhau ở nhà ga trước khi phim bắt đầu. Cảm
+    ơn bạn đã báo cho mình biết, như vậy là tốt rồi. Bạn muốn ăn tối với họ lúc mấy giờ? Mình sẽ gọi cho bạn
+    khi về đến nhà, nhưng trước tiên mình phải làm xong việc này. Bạn có thấy tin nhắn cô ấy gửi sáng nay
+    không? Nó thật sự rất buồn cười và tất cả chúng mình đều đã cười. Cho mình biết nếu mình có thể làm gì
+    cho bạn và gia đình bạn vào cuối tuần này. Họ nói thời tiết sẽ đẹp, nên có lẽ chúng ta có thể đi chơi.`,
+};
@@ -0,0 +1,100 @@
+/**
+ * Language Tag Utility
+ *
+ * Validates and builds BCP-47 language tags. Syntax is checked with
+ * Intl.getCanonicalLocales and the primary language subtag must be one ICU
+ * knows a name for, so free-form model output ("english", "xx") is rejected.
+ */
+
+export interface ParsedLanguageTag {
+  tag: string; // Canonical form, e.g. 'sr-Latn'
+  language: string; // Primary subtag, e.g. 'sr'
+  script?: string; // ISO 15924, e.g. 'Latn'
+  region?: string;
+}
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+/**
+ * Languages written in more than one script, with the script their tags
+ * imply. Other scripts get a subtag. Chinese uses Hans/Hant rather than Hani.
+ */
+const DEFAULT_SCRIPTS: Record<string, string> = {
+  sr: 'Cyrl',
+  bs: 'Latn',
+  uz: 'Latn',
+  az: 'Latn',
+  kk: 'Cyrl',
+  mn: 'Cyrl',
+  pa: 'Guru',
+  zh: 'Hans',
+  hi: 'Deva',
+  ur: 'Arab',
+  ku: 'Latn',
+};
+
+// Languages not normally written in Latin script, for which Latin text is a romanization
+const NON_LATIN_LANGUAGES = new Set([
+  'ar', 'bg', 'bn', 'el', 'fa', 'gu', 'he', 'hy', 'ja', 'ka', 'km', 'kn', 'ko', 'ml', 'mr', 'ne', 'ru',
+  'si', 'ta', 'te', 'th', 'uk',
+]);
+
+/**
+ * Parse and validate a BCP-47 tag; null if malformed or the language is unknown
+ */
+export function parseLanguageTag(value: string | null | undefined): ParsedLanguageTag | null {
+  if (!value || typeof value !== 'string') return null;
+
+  try {
+    const [tag] = Intl.getCanonicalLocales(value.trim().replace(/_/g, '-'));
+    const locale = new Intl.Locale(tag);
+    if (!languageNames.of(locale.language)) return null;
+
+    return {
+      tag,
+      language: locale.language,
+      script: locale.script,
+      region: locale.region,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tag for a language written in `script`. The script subtag is only added
+ * where it distinguishes something (sr-Latn vs sr-Cyrl, hi-Latn for romanized
+ * Hindi, zh-Hant). Null if the language isn't valid.
+ */
+export function toLanguageTag(language: string, script?: string | null): string | null {
+  const parsed = parseLanguageTag(language);
+  if (!parsed) return null;
+
+  const resolvedScript = parsed.script || script || undefined;
+  const defaultScript = DEFAULT_SCRIPTS[parsed.language];
+  const needsScript = resolvedScript && (
+    (defaultScript && defaultScript !== resolvedScript) ||
+    // Romanized text in a language with its own script
+    (resolvedScript === 'Latn' && NON_LATIN_LANGUAGES.has(parsed.language))
+  );
+
+  const subtags = [parsed.language];
+  if (needsScript) subtags.push(resolvedScript!);
+  if (parsed.region) subtags.push(parsed.region);
+
+  return parseLanguageTag(subtags.join('-'))?.tag ?? null;
+}
+
+/**
+ * Primary language subtag of a tag or code ('sr-Latn' -> 'sr')
+ */
+export function primaryLanguage(tag: string): string {
+  return tag.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Whether two tags or codes name the same language, ignoring script and region
+ */
+export function sameLanguage(a: string, b: string): boolean {
+  return primaryLanguage(a) === primaryLanguage(b);
+}
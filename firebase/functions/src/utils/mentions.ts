@@ -0,0 +1,93 @@
+/**
+ * Mentions Utility Module
+ *
+ * Resolves @mentions in group messages to participant user IDs
+ */
+
+import { getFirestore, DocumentData } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+// Reserved handles that mention every participant (group admins only)
+const EVERYONE_HANDLES = ['everyone'];
+
+interface MentionCandidate {
+  userId: string;
+  name: string; // lowercased displayName or nickname
+}
+
+/**
+ * Resolve @mentions in a group message
+ *
+ * Matches `@` followed by a participant's conversation nickname or displayName
+ * (case-insensitive, longest match wins so "@Sara Lee" beats "@Sara"). `@everyone`
+ * expands to all participants but is only honored when the sender is a group admin.
+ * The sender is never included in the result.
+ */
+export async function resolveMentions(
+  text: string,
+  senderId: string,
+  conversation: DocumentData
+): Promise<string[]> {
+  if (!text.includes('@')) return [];
+
+  const participants: string[] = conversation.participants || [];
+  const nicknames = (conversation.nicknames as Record<string, string>) || {};
+  const groupAdmins: string[] = conversation.groupAdmins || [];
+
+  const userDocs = await Promise.all(
+    participants.map((id) => db.collection('users').doc(id).get())
+  );
+
+  const candidates: MentionCandidate[] = [];
+  userDocs.forEach((doc) => {
+    const names = [nicknames[doc.id], doc.data()?.displayName as string | undefined];
+    names
+      .filter((name): name is string => !!name && name.trim().length > 0)
+      .forEach((name) => candidates.push({ userId: doc.id, name: name.trim().toLowerCase() }));
+  });
+
+  // Longest names first so multi-word names win over their prefixes
+  candidates.sort((a, b) => b.name.length - a.name.length);
+
+  const mentioned = new Set<string>();
+  const lowerText = text.toLowerCase();
+
+  for (let i = lowerText.indexOf('@'); i !== -1; i = lowerText.indexOf('@', i + 1)) {
+    // Ignore email addresses like bob@example.com
+    if (i > 0 && isNameChar(lowerText[i - 1])) continue;
+
+    const rest = lowerText.slice(i + 1);
+
+    const everyone = EVERYONE_HANDLES.find((handle) => startsWithName(rest, handle));
+    if (everyone) {
+      if (groupAdmins.includes(senderId)) {
+        participants.forEach((id) => mentioned.add(id));
+      } else {
+        console.log(`Ignoring @${everyone} from non-admin ${senderId}`);
+      }
+      continue;
+    }
+
+    const match = candidates.find((candidate) => startsWithName(rest, candidate.name));
+    if (match) {
+      mentioned.add(match.userId);
+    }
+  }
+
+  mentioned.delete(senderId);
+  return Array.from(mentioned);
+}
+
+/**
+ * Check that `text` starts with `name` followed by a word boundary
+ */
+function startsWithName(text: string, name: string): boolean {
+  if (!text.startsWith(name)) return false;
+  const next = text.charAt(name.length);
+  return next === '' || !isNameChar(next);
+}
+
+function isNameChar(char: string): boolean {
+  return /[\p{L}\p{N}_]/u.test(char);
+}
@@ -0,0 +1,22 @@
+/**
+ * Message Updates Module
+ *
+ * Tells apart message updates made by clients from the server's own writes
+ * back onto a message (resolved @mentions, auto-translation output), so the
+ * message update triggers can skip the latter before doing any work
+ */
+
+import { DocumentData } from 'firebase-admin/firestore';
+
+// Fields only the server writes on a message (firestore.rules rejects them from clients)
+const SERVER_MESSAGE_FIELDS = ['mentions', 'translations', 'detectedLanguage'];
+
+/**
+ * Whether an update changed nothing but server-written fields
+ */
+export function isServerOnlyUpdate(before: DocumentData, after: DocumentData): boolean {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).every((key) =>
+    SERVER_MESSAGE_FIELDS.includes(key) || JSON.stringify(before[key]) === JSON.stringify(after[key])
+  );
+}
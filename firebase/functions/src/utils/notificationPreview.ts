@@ -0,0 +1,67 @@
+/**
+ * Notification Preview Module
+ *
+ * Redacts push payloads according to each recipient's lock-screen preview setting
+ */
+
+import { defineString } from 'firebase-functions/params';
+
+/**
+ * How much of a message a push may reveal:
+ * - FULL: sender and message text
+ * - SENDER_ONLY: sender, with the text replaced by a placeholder
+ * - HIDDEN: a generic "New message" with no sender or text
+ */
+export type PreviewMode = 'FULL' | 'SENDER_ONLY' | 'HIDDEN';
+
+const PREVIEW_MODES: PreviewMode[] = ['FULL', 'SENDER_ONLY', 'HIDDEN'];
+
+export const HIDDEN_PREVIEW_TEXT = 'New message';
+
+// Fields that identify who sent something or where
+const IDENTITY_FIELDS = ['senderId', 'senderName', 'reactorId', 'reactorName', 'groupName'];
+
+/**
+ * Preview mode for users who haven't chosen one (`notificationPreview` on users/{uid})
+ */
+export const defaultNotificationPreview = defineString('DEFAULT_NOTIFICATION_PREVIEW', {
+  default: 'FULL',
+  description: 'Notification preview mode for users without a preference (FULL, SENDER_ONLY or HIDDEN)',
+});
+
+/**
+ * Resolve a stored preview setting, falling back to the configured default
+ */
+export function resolvePreviewMode(value: unknown): PreviewMode {
+  if (PREVIEW_MODES.includes(value as PreviewMode)) {
+    return value as PreviewMode;
+  }
+
+  const fallback = defaultNotificationPreview.value();
+  return PREVIEW_MODES.includes(fallback as PreviewMode) ? (fallback as PreviewMode) : 'FULL';
+}
+
+/**
+ * Apply a preview mode to an FCM data payload
+ *
+ * `messageText` is replaced with `placeholder` unless the mode is FULL; HIDDEN
+ * additionally drops sender and group names and the sender's user ID. The mode is echoed back in
+ * `preview` so the client can render accordingly.
+ */
+export function applyPreviewMode(
+  data: Record<string, string>,
+  mode: PreviewMode,
+  placeholder: string = HIDDEN_PREVIEW_TEXT
+): Record<string, string> {
+  if (mode === 'FULL') {
+    return { ...data, preview: mode };
+  }
+
+  const redacted: Record<string, string> = { ...data, messageText: placeholder, preview: mode };
+
+  if (mode === 'HIDDEN') {
+    IDENTITY_FIELDS.forEach((field) => delete redacted[field]);
+  }
+
+  return redacted;
+}
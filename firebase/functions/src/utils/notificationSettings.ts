@@ -0,0 +1,154 @@
+/**
+ * Notification Settings Module
+ *
+ * Resolves per-conversation mutes and user quiet hours before a push is sent
+ */
+
+import { getFirestore } from 'firebase-admin/firestore';
+import { PreviewMode, resolvePreviewMode } from './notificationPreview';
+
+const db = getFirestore();
+
+/**
+ * users/{uid}/conversationSettings/{conversationId}
+ */
+interface ConversationNotificationSettings {
+  muted?: boolean;
+  mutedUntil?: number | null; // epoch ms; null/missing with muted=true means muted forever
+}
+
+/**
+ * `quietHours` field on users/{uid}
+ */
+interface QuietHours {
+  enabled?: boolean;
+  start?: string; // 'HH:mm' in the user's time zone
+  end?: string; // 'HH:mm'; may be earlier than start for overnight windows
+  timeZone?: string; // IANA zone, e.g. 'America/New_York'
+}
+
+/**
+ * How a push should be delivered to a recipient:
+ * - ALERT: normal high-priority push that shows a notification
+ * - SILENT: low-priority data-only update (badge counts) with no alert
+ */
+export type DeliveryMode = 'ALERT' | 'SILENT';
+
+export interface RecipientSettings {
+  deliveryMode: DeliveryMode;
+  previewMode: PreviewMode;
+  language?: string; // users/{uid}.preferredLanguage
+}
+
+/**
+ * Check whether the conversation is muted or snoozed for a user
+ */
+export function isConversationMuted(
+  settings: ConversationNotificationSettings | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!settings?.muted) return false;
+  if (settings.mutedUntil == null) return true; // Muted forever
+  return settings.mutedUntil > now;
+}
+
+/**
+ * Check whether `now` falls inside the user's quiet-hours window
+ */
+export function isInQuietHours(quietHours: QuietHours | undefined, now: number = Date.now()): boolean {
+  if (!quietHours?.enabled || !quietHours.start || !quietHours.end) return false;
+
+  const start = parseMinutes(quietHours.start);
+  const end = parseMinutes(quietHours.end);
+  if (start == null || end == null || start === end) return false;
+
+  const current = localMinutes(now, quietHours.timeZone || 'UTC');
+  if (current == null) return false;
+
+  // Same-day window (13:00-14:00) vs overnight window (22:00-07:00)
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Resolve the delivery and preview modes for each recipient of a conversation push
+ *
+ * Users in `bypassMute` (e.g. @mentioned users) are alerted even if they muted
+ * the conversation; quiet hours still apply to them.
+ */
+export async function getRecipientSettings(
+  userIds: string[],
+  conversationId: string,
+  options: { bypassMute?: string[]; now?: number } = {}
+): Promise<Map<string, RecipientSettings>> {
+  const now = options.now ?? Date.now();
+  const bypassMute = options.bypassMute || [];
+  const settings = new Map<string, RecipientSettings>();
+
+  await Promise.all(
+    userIds.map(async (userId) => {
+      try {
+        const userRef = db.collection('users').doc(userId);
+        const [userDoc, settingsDoc] = await Promise.all([
+          userRef.get(),
+          userRef.collection('conversationSettings').doc(conversationId).get(),
+        ]);
+
+        const muted = !bypassMute.includes(userId) &&
+          isConversationMuted(settingsDoc.data() as ConversationNotificationSettings | undefined, now);
+        const quiet = isInQuietHours(userDoc.data()?.quietHours as QuietHours | undefined, now);
+
+        settings.set(userId, {
+          deliveryMode: muted || quiet ? 'SILENT' : 'ALERT',
+          previewMode: resolvePreviewMode(userDoc.data()?.notificationPreview),
+          language: userDoc.data()?.preferredLanguage,
+        });
+      } catch (error) {
+        // Fail open on delivery - a missed mute is better than a missed message -
+        // but closed on preview, so a failed read never leaks message text
+        console.error(`Failed to load notification settings for ${userId}:`, error);
+        settings.set(userId, { deliveryMode: 'ALERT', previewMode: 'HIDDEN' });
+      }
+    })
+  );
+
+  return settings;
+}
+
+/**
+ * Parse 'HH:mm' into minutes after midnight
+ */
+function parseMinutes(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after midnight for `now` in the given time zone
+ */
+function localMinutes(now: number, timeZone: string): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date(now));
+
+    const hours = parseInt(parts.find((p) => p.type === 'hour')?.value || '', 10);
+    const minutes = parseInt(parts.find((p) => p.type === 'minute')?.value || '', 10);
+    if (isNaN(hours) || isNaN(minutes)) return null;
+
+    return hours * 60 + minutes;
+  } catch (error) {
+    console.error(`Invalid time zone "${timeZone}":`, error);
+    return null;
+  }
+}
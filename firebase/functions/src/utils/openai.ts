@@ -1,7 +1,8 @@
 /**
  * OpenAI Utility Module
  * 
- * Centralized OpenAI client configuration and helper functions
+ * Centralized OpenAI client configuration and model defaults.
+ * Feature code calls models through getAIProvider() in ai/providers.
  */
 
 import { OpenAI } from 'openai';
@@ -13,24 +14,19 @@ export function getOpenAI(): OpenAI {
   if (!_openai) {
     _openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
+      maxRetries: 0, // Retries and timeouts are handled by ai/providers/resilience
     });
   }
   return _openai;
 }
 
-// Export for backward compatibility
-export const openai = new Proxy({} as OpenAI, {
-  get(target, prop) {
-    return (getOpenAI() as any)[prop];
-  }
-});
-
 // Default models
 export const MODELS = {
   TRANSLATION: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
   ASSISTANT: 'gpt-4-turbo-preview',
   DATA_EXTRACTION: 'gpt-4-turbo-preview',
   GPT4: 'gpt-4-turbo-preview',
+  TRANSCRIPTION: 'whisper-1',
 };
 
 // Default configurations
@@ -39,9 +35,17 @@ export const CONFIGS = {
     temperature: 0.3, // Low for consistency
     maxTokens: 2000,
   },
+  BATCH_TRANSLATION: {
+    temperature: 0.3,
+    maxTokens: 4000, // Room for a full chunk of translated messages
+  },
+  TRANSLATION_QUALITY: {
+    temperature: 0, // Scores should be repeatable
+    maxTokens: 2500, // Back-translation plus the verdict
+  },
   LANGUAGE_DETECTION: {
     temperature: 0.1, // Very low for deterministic output
-    maxTokens: 10,
+    maxTokens: 400, // Spans echo the (short) text
   },
   ASSISTANT: {
     temperature: 0.7, // Higher for natural conversation
@@ -52,32 +56,3 @@ export const CONFIGS = {
     maxTokens: 1500,
   },
 };
-
-/**
- * Call OpenAI with error handling and retries
- */
-export async function callOpenAI(
-  messages: OpenAI.Chat.ChatCompletionMessageParam[],
-  config: {
-    model?: string;
-    temperature?: number;
-    maxTokens?: number;
-    responseFormat?: { type: 'json_object' };
-  } = {}
-): Promise<string> {
-  try {
-    const completion = await openai.chat.completions.create({
-      model: config.model || MODELS.TRANSLATION,
-      messages,
-      temperature: config.temperature || 0.3,
-      max_tokens: config.maxTokens || 1000,
-      response_format: config.responseFormat,
-    });
-
-    return completion.choices[0].message.content || '';
-  } catch (error: any) {
-    console.error('OpenAI API error:', error);
-    throw new Error(`OpenAI API failed: ${error.message}`);
-  }
-}
-
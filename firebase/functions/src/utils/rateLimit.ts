@@ -1,88 +1,247 @@
 /**
  * Rate Limiting Utility
- * 
- * Prevents abuse of AI features
+ *
+ * Prevents abuse of AI features. Each check runs in one transaction against a
+ * sliding-window counter per user and feature, plus one randomly chosen shard
+ * of the feature's global budget so hot features don't contend on one document.
  */
 
-import { getFirestore } from 'firebase-admin/firestore';
+import { getFirestore, FieldValue, DocumentData } from 'firebase-admin/firestore';
 import { HttpsError } from 'firebase-functions/v2/https';
+import { assertWithinSpendCap } from './usage';
 
 const db = getFirestore();
 
-interface RateLimitConfig {
-  maxRequests: number;
+export type Plan = 'free' | 'pro' | 'admin';
+
+const PLANS: Plan[] = ['free', 'pro', 'admin'];
+
+interface FeatureQuota {
   windowMinutes: number;
+  limits: Record<Plan, number | null>; // Requests per window; null = unlimited
+  globalBudget: number; // Requests per window across all users
 }
 
-const DEFAULT_LIMIT: RateLimitConfig = {
-  maxRequests: 100,
-  windowMinutes: 60, // 1 hour
+/**
+ * Quotas per feature and plan tier (`plan` on the user document, default free)
+ */
+export const FEATURE_QUOTAS: Record<string, FeatureQuota> = {
+  translation: { windowMinutes: 60, limits: { free: 100, pro: 1000, admin: null }, globalBudget: 50000 },
+  batchTranslation: { windowMinutes: 60, limits: { free: 20, pro: 200, admin: null }, globalBudget: 5000 },
+  translationVerification: { windowMinutes: 60, limits: { free: 50, pro: 500, admin: null }, globalBudget: 20000 },
+  autoTranslation: { windowMinutes: 60, limits: { free: 300, pro: 3000, admin: null }, globalBudget: 100000 },
+  languageDetection: { windowMinutes: 60, limits: { free: 200, pro: 2000, admin: null }, globalBudget: 100000 },
+  smartReply: { windowMinutes: 60, limits: { free: 50, pro: 500, admin: null }, globalBudget: 20000 },
+  'cultural-context': { windowMinutes: 60, limits: { free: 100, pro: 1000, admin: null }, globalBudget: 20000 },
+  formality: { windowMinutes: 60, limits: { free: 50, pro: 500, admin: null }, globalBudget: 20000 },
+  dataExtraction: { windowMinutes: 60, limits: { free: 50, pro: 500, admin: null }, globalBudget: 20000 },
+  batchDataExtraction: { windowMinutes: 60, limits: { free: 10, pro: 100, admin: null }, globalBudget: 2000 },
+  transcription: { windowMinutes: 60, limits: { free: 50, pro: 500, admin: null }, globalBudget: 10000 },
 };
 
+const GLOBAL_BUDGET_SHARDS = 10;
+
+/**
+ * Sliding-window counter: requests in the current fixed window plus the
+ * previous window's count, weighted by how much of it still overlaps
+ */
+interface WindowCounter {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+export interface QuotaStatus {
+  feature: string;
+  plan: Plan;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  windowMinutes: number;
+  resetAt: number; // When a request is next allowed if exhausted, otherwise when the window rolls over
+}
+
+function quotaFor(feature: string): FeatureQuota {
+  const quota = FEATURE_QUOTAS[feature];
+  if (!quota) {
+    throw new HttpsError('internal', `No rate limit quota configured for feature "${feature}"`);
+  }
+  return quota;
+}
+
+function userCounterRef(userId: string, feature: string) {
+  return db.collection('rateLimits').doc(userId).collection('features').doc(feature);
+}
+
+function budgetShardRef(feature: string, shard: number) {
+  return db.collection('rateLimitBudgets').doc(feature).collection('shards').doc(String(shard));
+}
+
+/**
+ * Plan tier from the user document; anything unrecognised is treated as free
+ */
+export async function getUserPlan(userId: string): Promise<Plan> {
+  const userDoc = await db.collection('users').doc(userId).get();
+  const plan = userDoc.data()?.plan;
+  return PLANS.includes(plan) ? plan : 'free';
+}
+
+function currentWindow(data: DocumentData | undefined, now: number, windowMs: number): WindowCounter {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  if (data?.windowStart === windowStart) {
+    return { windowStart, count: data.count || 0, previousCount: data.previousCount || 0 };
+  }
+  if (data?.windowStart === windowStart - windowMs) {
+    return { windowStart, count: 0, previousCount: data.count || 0 };
+  }
+  if (Array.isArray(data?.requests)) {
+    // Legacy timestamp-array document: carry over requests still in the window
+    const recent = (data!.requests as number[]).filter((timestamp) => now - timestamp < windowMs).length;
+    return { windowStart, count: recent, previousCount: 0 };
+  }
+  return { windowStart, count: 0, previousCount: 0 };
+}
+
+function estimatedCount(counter: WindowCounter, now: number, windowMs: number): number {
+  const overlap = 1 - (now - counter.windowStart) / windowMs;
+  return counter.previousCount * overlap + counter.count;
+}
+
 /**
- * Check if user has exceeded rate limit
- * Returns true if allowed, throws HttpsError if limit exceeded
+ * Earliest time one more request fits under `limit`
  */
-export async function checkRateLimit(
-  userId: string,
-  feature: string,
-  config: RateLimitConfig = DEFAULT_LIMIT
-): Promise<boolean> {
+function nextAllowedAt(counter: WindowCounter, now: number, windowMs: number, limit: number): number {
+  const windowEnd = counter.windowStart + windowMs;
+  if (counter.count + 1 > limit || counter.previousCount === 0) {
+    return windowEnd;
+  }
+  const overlapNeeded = (limit - 1 - counter.count) / counter.previousCount;
+  return Math.max(now, Math.min(windowEnd, counter.windowStart + Math.ceil((1 - overlapNeeded) * windowMs)));
+}
+
+function minutesUntil(timestamp: number): number {
+  return Math.max(1, Math.ceil((timestamp - Date.now()) / 1000 / 60));
+}
+
+/**
+ * Check and consume one request of the user's quota for a feature
+ * Returns the quota status if allowed, throws HttpsError if a limit or the
+ * monthly spend cap is exceeded
+ */
+export async function checkRateLimit(userId: string, feature: string): Promise<QuotaStatus> {
+  const quota = quotaFor(feature);
+  const windowMs = quota.windowMinutes * 60 * 1000;
+  const shardLimit = Math.ceil(quota.globalBudget / GLOBAL_BUDGET_SHARDS);
+
+  let plan: Plan;
+  let outcome: { status: QuotaStatus; exceeded?: 'user' | 'global' };
+
   try {
-    const rateLimitRef = db
-      .collection('rateLimits')
-      .doc(userId)
-      .collection('features')
-      .doc(feature);
-
-    const doc = await rateLimitRef.get();
-    const now = Date.now();
-    const windowMs = config.windowMinutes * 60 * 1000;
-
-    if (!doc.exists) {
-      // First request - create document
-      await rateLimitRef.set({
-        requests: [now],
-        lastReset: now,
-      });
-      return true;
-    }
+    // Plan changes rarely; read it outside the transaction to keep the user doc out of it
+    plan = await getUserPlan(userId);
+    const limit = quota.limits[plan];
 
-    const data = doc.data();
-    const requests: number[] = data?.requests || [];
-    const lastReset: number = data?.lastReset || now;
-
-    // Remove requests outside the time window
-    const recentRequests = requests.filter((timestamp) => now - timestamp < windowMs);
-
-    // Check if limit exceeded
-    if (recentRequests.length >= config.maxRequests) {
-      const oldestRequest = Math.min(...recentRequests);
-      const resetIn = Math.ceil((windowMs - (now - oldestRequest)) / 1000 / 60); // minutes
-      
-      throw new HttpsError(
-        'resource-exhausted',
-        `Rate limit exceeded. Try again in ${resetIn} minutes.`
-      );
-    }
+    await assertWithinSpendCap(userId, plan);
 
-    // Add current request and update
-    recentRequests.push(now);
-    await rateLimitRef.set({
-      requests: recentRequests,
-      lastReset: now > lastReset + windowMs ? now : lastReset,
-    });
+    const userRef = userCounterRef(userId, feature);
+    const shardRef = budgetShardRef(feature, Math.floor(Math.random() * GLOBAL_BUDGET_SHARDS));
+
+    outcome = await db.runTransaction(async (transaction) => {
+      const [userDoc, shardDoc] = await Promise.all([
+        transaction.get(userRef),
+        transaction.get(shardRef),
+      ]);
+
+      const now = Date.now();
+      const user = currentWindow(userDoc.data(), now, windowMs);
+      const shard = currentWindow(shardDoc.data(), now, windowMs);
+      const used = estimatedCount(user, now, windowMs);
+
+      const status: QuotaStatus = {
+        feature,
+        plan,
+        limit,
+        used: Math.ceil(used),
+        remaining: limit === null ? null : Math.max(0, Math.floor(limit - used)),
+        windowMinutes: quota.windowMinutes,
+        resetAt: user.windowStart + windowMs,
+      };
 
-    return true;
-  } catch (error: any) {
-    // Re-throw HttpsError
-    if (error.code === 'resource-exhausted') {
+      if (limit !== null && used + 1 > limit) {
+        return { status: { ...status, resetAt: nextAllowedAt(user, now, windowMs, limit) }, exceeded: 'user' as const };
+      }
+
+      if (estimatedCount(shard, now, windowMs) + 1 > shardLimit) {
+        return { status: { ...status, resetAt: nextAllowedAt(shard, now, windowMs, shardLimit) }, exceeded: 'global' as const };
+      }
+
+      transaction.set(userRef, { ...user, count: user.count + 1, updatedAt: FieldValue.serverTimestamp() });
+      transaction.set(shardRef, { ...shard, count: shard.count + 1, updatedAt: FieldValue.serverTimestamp() });
+
+      return {
+        status: {
+          ...status,
+          used: status.used + 1,
+          remaining: status.remaining === null ? null : Math.max(0, status.remaining - 1),
+        },
+      };
+    });
+  } catch (error) {
+    if (error instanceof HttpsError) {
       throw error;
     }
-    
-    // Log other errors but allow request (fail open)
+
+    // Fail closed: without a working limiter we can't bound AI spend
     console.error('Rate limit check error:', error);
-    return true;
+    throw new HttpsError('unavailable', 'Unable to verify usage quota. Please try again.');
+  }
+
+  if (outcome.exceeded === 'user') {
+    throw new HttpsError(
+      'resource-exhausted',
+      `Rate limit exceeded. Try again in ${minutesUntil(outcome.status.resetAt)} minutes.`,
+      { feature, plan, resetAt: outcome.status.resetAt }
+    );
   }
+
+  if (outcome.exceeded === 'global') {
+    console.warn(`Global ${feature} budget exhausted`);
+    throw new HttpsError(
+      'resource-exhausted',
+      `This feature is busy right now. Try again in ${minutesUntil(outcome.status.resetAt)} minutes.`,
+      { feature, resetAt: outcome.status.resetAt }
+    );
+  }
+
+  return outcome.status;
 }
 
+/**
+ * Current quota status for every feature, without consuming anything
+ */
+export async function getQuotaStatuses(userId: string, knownPlan?: Plan): Promise<QuotaStatus[]> {
+  const plan = knownPlan ?? await getUserPlan(userId);
+  const features = Object.keys(FEATURE_QUOTAS);
+  const docs = await db.getAll(...features.map((feature) => userCounterRef(userId, feature)));
+  const now = Date.now();
+
+  return features.map((feature, idx) => {
+    const quota = FEATURE_QUOTAS[feature];
+    const windowMs = quota.windowMinutes * 60 * 1000;
+    const limit = quota.limits[plan];
+    const counter = currentWindow(docs[idx].data(), now, windowMs);
+    const used = estimatedCount(counter, now, windowMs);
+    const exhausted = limit !== null && used + 1 > limit;
+
+    return {
+      feature,
+      plan,
+      limit,
+      used: Math.ceil(used),
+      remaining: limit === null ? null : Math.max(0, Math.floor(limit - used)),
+      windowMinutes: quota.windowMinutes,
+      resetAt: exhausted ? nextAllowedAt(counter, now, windowMs, limit!) : counter.windowStart + windowMs,
+    };
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Reaction Preview Module
+ *
+ * Maintains the per-user `reactionNotifications` map on conversation documents.
+ * Each entry stacks the reactions a user hasn't seen yet; the top-level fields
+ * (text, timestamp, messageId, reactorId) summarize the stack for the client.
+ */
+
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+const db = getFirestore();
+
+// Keep the stack bounded; older entries only matter for the summary text
+const MAX_STACKED_REACTIONS = 20;
+
+export interface ReactionPreviewEntry {
+  emoji: string;
+  reactorId: string;
+  reactorName: string;
+  messageId: string;
+  timestamp: number;
+}
+
+interface ReactionPreview {
+  text: string;
+  timestamp: number;
+  messageId: string;
+  reactorId: string;
+  reactions: ReactionPreviewEntry[];
+}
+
+/**
+ * Add a reaction to the message owner's preview stack
+ */
+export async function addReactionPreview(
+  conversationId: string,
+  ownerId: string,
+  entry: ReactionPreviewEntry
+): Promise<void> {
+  await updatePreviewStack(conversationId, ownerId, (entries) => {
+    // Re-reacting with the same emoji replaces the older entry
+    const remaining = entries.filter((existing) => !isSameReaction(existing, entry));
+    return [...remaining, entry].slice(-MAX_STACKED_REACTIONS);
+  });
+}
+
+/**
+ * Remove a reaction from the message owner's preview stack (emoji removed)
+ */
+export async function removeReactionPreview(
+  conversationId: string,
+  ownerId: string,
+  reaction: { emoji: string; reactorId: string; messageId: string }
+): Promise<void> {
+  await updatePreviewStack(conversationId, ownerId, (entries) =>
+    entries.filter((existing) => !isSameReaction(existing, reaction))
+  );
+}
+
+/**
+ * Clear a user's reaction preview (e.g. once they've sent a newer message)
+ */
+export function clearReactionPreviewUpdate(userId: string): Record<string, FieldValue> {
+  return { [`reactionNotifications.${userId}`]: FieldValue.delete() };
+}
+
+/**
+ * Transactionally rewrite a user's stack and its summary fields
+ */
+async function updatePreviewStack(
+  conversationId: string,
+  ownerId: string,
+  update: (entries: ReactionPreviewEntry[]) => ReactionPreviewEntry[]
+): Promise<void> {
+  const conversationRef = db.collection('conversations').doc(conversationId);
+
+  await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(conversationRef);
+    if (!doc.exists) return;
+
+    const current = doc.data()?.reactionNotifications?.[ownerId];
+    const entries = update(readEntries(current));
+
+    if (entries.length === 0) {
+      if (current) {
+        transaction.update(conversationRef, clearReactionPreviewUpdate(ownerId));
+      }
+      return;
+    }
+
+    transaction.update(conversationRef, {
+      [`reactionNotifications.${ownerId}`]: summarize(entries),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Read the stack, upgrading single-reaction entries written before stacking
+ */
+function readEntries(preview: any): ReactionPreviewEntry[] {
+  if (!preview) return [];
+  if (Array.isArray(preview.reactions)) return preview.reactions;
+
+  // Legacy entry: "❤️ Alex reacted to your message"
+  const [emoji, ...nameParts] = String(preview.text || '').replace(/ reacted to your message$/, '').split(' ');
+  return [{
+    emoji: emoji || '',
+    reactorId: preview.reactorId || '',
+    reactorName: nameParts.join(' ') || 'Someone',
+    messageId: preview.messageId || '',
+    timestamp: preview.timestamp || Date.now(),
+  }];
+}
+
+/**
+ * Build the preview fields the client reads from a non-empty stack
+ */
+function summarize(entries: ReactionPreviewEntry[]): ReactionPreview {
+  const latest = entries[entries.length - 1];
+  const emojis = Array.from(new Set(entries.map((entry) => entry.emoji).reverse())).slice(0, 3).join('');
+  const names = Array.from(new Set(entries.map((entry) => entry.reactorName).reverse()));
+  const messageCount = new Set(entries.map((entry) => entry.messageId)).size;
+
+  const who = names.length === 1
+    ? names[0]
+    : names.length === 2
+    ? `${names[0]} and ${names[1]}`
+    : `${names[0]} and ${names.length - 1} others`;
+  const what = messageCount === 1 ? 'your message' : `${messageCount} of your messages`;
+
+  return {
+    text: `${emojis} ${who} reacted to ${what}`,
+    timestamp: latest.timestamp,
+    messageId: latest.messageId,
+    reactorId: latest.reactorId,
+    reactions: entries,
+  };
+}
+
+function isSameReaction(
+  a: { emoji: string; reactorId: string; messageId: string },
+  b: { emoji: string; reactorId: string; messageId: string }
+): boolean {
+  return a.emoji === b.emoji && a.reactorId === b.reactorId && a.messageId === b.messageId;
+}
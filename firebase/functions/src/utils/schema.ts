@@ -0,0 +1,185 @@
+/**
+ * Schema Utility
+ *
+ * Small runtime schemas for validating model output. Schemas coerce what
+ * they safely can (numeric strings, enum case and spacing, out-of-range
+ * numbers), fall back to per-field defaults for missing values, and record
+ * an issue for every value they had to reject. Invalid array items are
+ * dropped; an object missing a required field is invalid as a whole.
+ */
+
+import { parseLanguageTag } from './languageTags';
+
+/**
+ * Validates `value`, returning the coerced value or undefined if it's invalid
+ * (in which case an issue has been recorded at `path`)
+ */
+export type Schema<T> = ((value: unknown, path: string, issues: string[]) => T | undefined) & {
+  optional?: boolean;
+};
+
+export interface ValidationResult<T> {
+  value: T | undefined;
+  issues: string[]; // 'path: problem', empty if the value was fully valid
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: string[] = [];
+  const result = schema(value, '$', issues);
+  return { value: result, issues };
+}
+
+/**
+ * Default for a missing value; a missing value without a default is an issue
+ */
+function missing<T>(defaultValue: T | undefined, path: string, issues: string[]): T | undefined {
+  if (defaultValue === undefined) issues.push(`${path}: required`);
+  return defaultValue;
+}
+
+/**
+ * Default for a value that had to be rejected; always an issue
+ */
+function rejected<T>(defaultValue: T | undefined, path: string, issues: string[], problem: string): T | undefined {
+  issues.push(`${path}: ${problem}`);
+  return defaultValue;
+}
+
+export function string(options: { default?: string; maxLength?: number } = {}): Schema<string> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) return missing(options.default, path, issues);
+    if (typeof value === 'number' || typeof value === 'boolean') value = String(value);
+    if (typeof value !== 'string') return rejected(options.default, path, issues, 'expected a string');
+
+    const trimmed = value.trim();
+    if (!trimmed) return missing(options.default, path, issues);
+    return options.maxLength ? trimmed.slice(0, options.maxLength) : trimmed;
+  };
+}
+
+/**
+ * Numbers and numeric strings, clamped to [min, max]
+ */
+export function number(options: { min?: number; max?: number; default?: number } = {}): Schema<number> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null || value === '') return missing(options.default, path, issues);
+
+    const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      return rejected(options.default, path, issues, 'expected a number');
+    }
+
+    let result = parsed;
+    if (options.min !== undefined) result = Math.max(options.min, result);
+    if (options.max !== undefined) result = Math.min(options.max, result);
+    return result;
+  };
+}
+
+export function boolean(options: { default?: boolean } = {}): Schema<boolean> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) return missing(options.default, path, issues);
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    return rejected(options.default, path, issues, 'expected a boolean');
+  };
+}
+
+/**
+ * One of `values`, matched ignoring case and treating spaces/hyphens as underscores
+ */
+export function oneOf<T extends string>(values: readonly T[], options: { default?: T } = {}): Schema<T> {
+  const canonical = (text: string) => text.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const byKey = new Map(values.map((value) => [canonical(value), value]));
+
+  return (value, path, issues) => {
+    if (value === undefined || value === null || value === '') return missing(options.default, path, issues);
+    const match = typeof value === 'string' ? byKey.get(canonical(value)) : undefined;
+    return match ?? rejected(options.default, path, issues, `expected one of ${values.join(', ')}`);
+  };
+}
+
+/**
+ * Arrays; invalid items are dropped, items beyond `maxItems` ignored
+ */
+export function array<T>(item: Schema<T>, options: { default?: T[]; maxItems?: number } = {}): Schema<T[]> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) return missing(options.default, path, issues);
+    if (!Array.isArray(value)) return rejected(options.default, path, issues, 'expected an array');
+
+    const items = options.maxItems !== undefined ? value.slice(0, options.maxItems) : value;
+    return items
+      .map((element, index) => item(element, `${path}[${index}]`, issues))
+      .filter((element): element is T => element !== undefined);
+  };
+}
+
+/**
+ * Objects with the given fields; unknown fields are dropped. Invalid if a
+ * required (non-optional) field is invalid.
+ */
+export function object<T extends object>(
+  shape: { [K in keyof T]-?: Schema<T[K]> },
+  options: { default?: T } = {}
+): Schema<T> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) return missing(options.default, path, issues);
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return rejected(options.default, path, issues, 'expected an object');
+    }
+
+    const result: Record<string, unknown> = {};
+    let valid = true;
+    (Object.keys(shape) as Array<keyof T & string>).forEach((key) => {
+      const field = shape[key];
+      const fieldValue = field((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+      if (fieldValue !== undefined) {
+        result[key] = fieldValue;
+      } else if (!field.optional) {
+        valid = false;
+      }
+    });
+
+    return valid ? (result as T) : undefined;
+  };
+}
+
+/**
+ * A field that may be absent; present but invalid values are still reported
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  const wrapped: Schema<T | undefined> = (value, path, issues) =>
+    value === undefined || value === null || value === '' ? undefined : schema(value, path, issues);
+  wrapped.optional = true;
+  return wrapped;
+}
+
+/**
+ * Transform the raw value before validating it, e.g. to accept a legacy field name
+ */
+export function preprocess<T>(transform: (value: unknown) => unknown, schema: Schema<T>): Schema<T> {
+  const wrapped: Schema<T> = (value, path, issues) => schema(transform(value), path, issues);
+  wrapped.optional = schema.optional;
+  return wrapped;
+}
+
+/**
+ * A value that must also pass `check`; failures are rejected with `problem`
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => boolean, problem: string): Schema<T> {
+  const wrapped: Schema<T> = (value, path, issues) => {
+    const result = schema(value, path, issues);
+    if (result === undefined || check(result)) return result;
+    issues.push(`${path}: ${problem}`);
+    return undefined;
+  };
+  wrapped.optional = schema.optional;
+  return wrapped;
+}
+
+/**
+ * A valid BCP-47 language tag, as written (callers canonicalize if needed)
+ */
+export function languageTag(options: { default?: string } = {}): Schema<string> {
+  return refine(string({ default: options.default, maxLength: 35 }), (value) => parseLanguageTag(value) !== null, 'expected a BCP-47 language tag');
+}
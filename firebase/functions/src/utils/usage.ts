@@ -0,0 +1,211 @@
+/**
+ * Usage Accounting Utility
+ *
+ * Every model call (and every cache hit that saved one) is written to the
+ * `usageLedger` collection with its tokens, estimated cost, latency and status. Each
+ * user's month-to-date spend is kept in `usageMonthly/{userId}/months/{YYYY-MM}`
+ * for spend caps; rollupDailyUsage aggregates the ledger into `usageDaily`.
+ */
+
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import type { Plan } from './rateLimit';
+
+const db = getFirestore();
+
+// Ledger entries are removed by a Firestore TTL policy on `expireAt`
+const LEDGER_RETENTION_DAYS = 90;
+
+/**
+ * USD per 1M tokens (chat) and per minute (transcription)
+ */
+const MODEL_PRICING: Record<string, { input?: number; output?: number; perMinute?: number }> = {
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  // Snapshots reported back for the -preview alias (responses name the snapshot, not the alias)
+  'gpt-4-0125-preview': { input: 10, output: 30 },
+  'gpt-4-1106-preview': { input: 10, output: 30 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'whisper-1': { perMinute: 0.006 },
+};
+
+/**
+ * Monthly spend cap per plan in USD; null = uncapped
+ */
+export const MONTHLY_SPEND_CAPS_USD: Record<Plan, number | null> = {
+  free: 2,
+  pro: 25,
+  admin: null,
+};
+
+// How a model call ended; cache hits are always 'success'
+export type UsageStatus = 'success' | 'error' | 'timeout' | 'aborted';
+
+export interface UsageRecord {
+  feature: string;
+  userId?: string;
+  conversationId?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  audioSeconds?: number;
+  cacheHit: boolean;
+  status?: UsageStatus; // Defaults to 'success'
+  latencyMs: number;
+}
+
+export interface MonthlySpend {
+  month: string;
+  spentUsd: number;
+  capUsd: number | null;
+  resetAt: number;
+}
+
+export function dayKey(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10); // YYYY-MM-DD (UTC)
+}
+
+export function monthKey(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 7); // YYYY-MM (UTC)
+}
+
+function nextMonthStart(timestamp: number = Date.now()): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Estimated cost of a call; models without a price entry count as free
+ */
+export function estimateCostUsd(
+  model: string | undefined,
+  promptTokens = 0,
+  completionTokens = 0,
+  audioSeconds = 0
+): number {
+  if (!model) return 0;
+
+  // Dated snapshots (gpt-4o-2024-08-06) are priced like their base model
+  const key = Object.keys(MODEL_PRICING)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  const pricing = key ? MODEL_PRICING[key] : undefined;
+  if (!pricing) return 0;
+
+  return (
+    (promptTokens * (pricing.input || 0)) / 1_000_000 +
+    (completionTokens * (pricing.output || 0)) / 1_000_000 +
+    (audioSeconds / 60) * (pricing.perMinute || 0)
+  );
+}
+
+function monthlyRef(userId: string, month: string) {
+  return db.collection('usageMonthly').doc(userId).collection('months').doc(month);
+}
+
+/**
+ * Append a usage record to the ledger and the user's monthly total
+ * Never throws: accounting must not fail the request it describes
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  try {
+    const now = Date.now();
+    const promptTokens = record.promptTokens || 0;
+    const completionTokens = record.completionTokens || 0;
+    const audioSeconds = record.audioSeconds || 0;
+    const costUsd = record.cacheHit
+      ? 0
+      : estimateCostUsd(record.model, promptTokens, completionTokens, audioSeconds);
+
+    const batch = db.batch();
+
+    batch.set(db.collection('usageLedger').doc(), {
+      feature: record.feature,
+      userId: record.userId || null,
+      conversationId: record.conversationId || null,
+      model: record.model || null,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      audioSeconds,
+      costUsd,
+      cacheHit: record.cacheHit,
+      status: record.status || 'success',
+      latencyMs: Math.round(record.latencyMs),
+      day: dayKey(now),
+      createdAt: now,
+      expireAt: Timestamp.fromMillis(now + LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    if (record.userId) {
+      batch.set(monthlyRef(record.userId, monthKey(now)), {
+        requests: FieldValue.increment(1),
+        cacheHits: FieldValue.increment(record.cacheHit ? 1 : 0),
+        totalTokens: FieldValue.increment(promptTokens + completionTokens),
+        audioSeconds: FieldValue.increment(audioSeconds),
+        costUsd: FieldValue.increment(costUsd),
+        features: {
+          [record.feature]: {
+            requests: FieldValue.increment(1),
+            costUsd: FieldValue.increment(costUsd),
+          },
+        },
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+    }
+
+    await batch.commit();
+  } catch (error) {
+    console.error(`Failed to record usage for ${record.feature}:`, error);
+  }
+}
+
+/**
+ * Record a cache hit that avoided a model call
+ */
+export function recordCacheHit(
+  feature: string,
+  userId: string | undefined,
+  startedAt: number,
+  conversationId?: string
+): Promise<void> {
+  return recordUsage({
+    feature,
+    userId,
+    conversationId,
+    cacheHit: true,
+    latencyMs: Date.now() - startedAt,
+  });
+}
+
+/**
+ * The user's month-to-date spend against their plan's cap
+ */
+export async function getMonthlySpend(userId: string, plan: Plan): Promise<MonthlySpend> {
+  const now = Date.now();
+  const month = monthKey(now);
+  const doc = await monthlyRef(userId, month).get();
+
+  return {
+    month,
+    spentUsd: (doc.data()?.costUsd as number) || 0,
+    capUsd: MONTHLY_SPEND_CAPS_USD[plan],
+    resetAt: nextMonthStart(now),
+  };
+}
+
+/**
+ * Throw resource-exhausted if the user has reached their monthly spend cap
+ */
+export async function assertWithinSpendCap(userId: string, plan: Plan): Promise<void> {
+  const spend = await getMonthlySpend(userId, plan);
+  if (spend.capUsd === null || spend.spentUsd < spend.capUsd) return;
+
+  throw new HttpsError(
+    'resource-exhausted',
+    'Monthly AI usage limit reached. It resets at the start of next month.',
+    { plan, month: spend.month, resetAt: spend.resetAt }
+  );
+}
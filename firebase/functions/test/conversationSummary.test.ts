@@ -0,0 +1,127 @@
+jest.mock('firebase-admin/firestore', () => require('./support/fakeFirestore'));
+
+import { applyNewMessage, applyReadReceipt, getBadgeCount, messagePreviewText } from '../src/utils/conversationSummary';
+import { readDoc, resetFirestore, seedDoc } from './support/fakeFirestore';
+
+describe('messagePreviewText', () => {
+  it('describes media and falls back for empty text', () => {
+    expect(messagePreviewText({ type: 'IMAGE', text: 'ignored' })).toBe('📷 Sent an image');
+    expect(messagePreviewText({ type: 'AUDIO' })).toBe('🎤 Voice message');
+    expect(messagePreviewText({ type: 'TEXT', text: 'Hi' })).toBe('Hi');
+    expect(messagePreviewText({ type: 'TEXT' })).toBe('New message');
+  });
+});
+
+describe('applyNewMessage', () => {
+  beforeEach(() => {
+    resetFirestore();
+    seedDoc('conversations/c1', { participants: ['alice', 'bob', 'carol'], unreadCounts: { alice: 2, bob: 1 } });
+    seedDoc('users/bob', { unreadTotal: 4 });
+    seedDoc('users/carol', {});
+  });
+
+  it('counts the message for recipients and marks it read for the sender', async () => {
+    const badges = await applyNewMessage('c1', 'm1', { senderId: 'alice', text: 'Hi', timestamp: 1000 }, ['bob', 'carol']);
+
+    expect(badges).toEqual(new Map([['bob', 5], ['carol', 1]]));
+
+    const conversation = readDoc('conversations/c1');
+    expect(conversation?.unreadCounts).toEqual({ alice: 0, bob: 2, carol: 1 });
+    expect(conversation?.lastReadMessageId).toEqual({ alice: 'm1' });
+    expect(conversation?.lastMessage).toMatchObject({ id: 'm1', senderId: 'alice', preview: 'Hi', timestamp: 1000 });
+    expect(readDoc('users/bob')?.unreadTotal).toBe(5);
+    expect(readDoc('users/carol')?.unreadTotal).toBe(1);
+  });
+
+  it('counts a redelivered message only once', async () => {
+    const message = { senderId: 'alice', text: 'Hi', timestamp: 1000 };
+    await applyNewMessage('c1', 'm1', message, ['bob', 'carol']);
+    const badges = await applyNewMessage('c1', 'm1', message, ['bob', 'carol']);
+
+    expect(badges).toEqual(new Map([['bob', 5], ['carol', 1]]));
+    expect(readDoc('conversations/c1')?.unreadCounts).toEqual({ alice: 0, bob: 2, carol: 1 });
+    expect(readDoc('users/bob')?.unreadTotal).toBe(5);
+  });
+
+  it('still counts a message whose lastMessage the client already wrote', async () => {
+    seedDoc('conversations/c1', { participants: ['alice', 'bob'], lastMessage: { id: 'm1', timestamp: 1000 } });
+
+    await applyNewMessage('c1', 'm1', { senderId: 'alice', text: 'Hi', timestamp: 1000 }, ['bob']);
+
+    expect(readDoc('conversations/c1')?.unreadCounts).toEqual({ alice: 0, bob: 1 });
+  });
+
+  it('keeps a newer lastMessage', async () => {
+    seedDoc('conversations/c1', { participants: ['alice', 'bob'], lastMessage: { id: 'm2', timestamp: 2000 } });
+
+    await applyNewMessage('c1', 'm1', { senderId: 'alice', text: 'Late', timestamp: 1000 }, ['bob']);
+
+    expect(readDoc('conversations/c1')?.lastMessage.id).toBe('m2');
+  });
+
+  it('does not create missing user documents', async () => {
+    const badges = await applyNewMessage('c1', 'm1', { senderId: 'alice', timestamp: 1000 }, ['dave']);
+
+    expect(badges.get('dave')).toBe(1);
+    expect(readDoc('users/dave')).toBeUndefined();
+  });
+});
+
+describe('applyReadReceipt', () => {
+  beforeEach(() => {
+    resetFirestore();
+    seedDoc('conversations/c1', {
+      participants: ['alice', 'bob'],
+      unreadCounts: { bob: 3 },
+      unreadMentions: { bob: 1 },
+      lastReadAt: { bob: 100 },
+    });
+    seedDoc('conversations/c1/messages/m1', { senderId: 'alice', timestamp: 200 });
+    seedDoc('conversations/c1/messages/m2', { senderId: 'bob', timestamp: 300 });
+    seedDoc('conversations/c1/messages/m3', { senderId: 'alice', timestamp: 400 });
+    seedDoc('conversations/c1/messages/m4', { senderId: 'alice', timestamp: 500 });
+    seedDoc('users/bob', { unreadTotal: 7 });
+  });
+
+  it('recounts unread messages from others and adjusts the badge total', async () => {
+    await applyReadReceipt('c1', 'bob', 'm1', 200);
+
+    const conversation = readDoc('conversations/c1');
+    expect(conversation?.unreadCounts.bob).toBe(2);
+    expect(conversation?.lastReadMessageId.bob).toBe('m1');
+    expect(conversation?.lastReadAt.bob).toBe(200);
+    expect(conversation?.unreadMentions.bob).toBe(1);
+    expect(readDoc('users/bob')?.unreadTotal).toBe(6);
+  });
+
+  it('clears unread mentions once caught up', async () => {
+    await applyReadReceipt('c1', 'bob', 'm4', 500);
+
+    const conversation = readDoc('conversations/c1');
+    expect(conversation?.unreadCounts.bob).toBe(0);
+    expect(conversation?.unreadMentions.bob).toBe(0);
+    expect(readDoc('users/bob')?.unreadTotal).toBe(4);
+  });
+
+  it('never moves the read marker backwards', async () => {
+    await applyReadReceipt('c1', 'bob', 'm0', 50);
+
+    expect(readDoc('conversations/c1')?.lastReadAt.bob).toBe(100);
+    expect(readDoc('users/bob')?.unreadTotal).toBe(7);
+  });
+});
+
+describe('getBadgeCount', () => {
+  beforeEach(() => {
+    resetFirestore();
+  });
+
+  it('reads the unread total, never below zero', async () => {
+    seedDoc('users/bob', { unreadTotal: 3 });
+    seedDoc('users/carol', { unreadTotal: -2 });
+
+    await expect(getBadgeCount('bob')).resolves.toBe(3);
+    await expect(getBadgeCount('carol')).resolves.toBe(0);
+    await expect(getBadgeCount('dave')).resolves.toBe(0);
+  });
+});
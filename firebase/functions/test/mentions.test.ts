@@ -0,0 +1,58 @@
+jest.mock('firebase-admin/firestore', () => require('./support/fakeFirestore'));
+
+import { resolveMentions } from '../src/utils/mentions';
+import { resetFirestore, seedDoc } from './support/fakeFirestore';
+
+const conversation = {
+  participants: ['sara', 'saraLee', 'bob'],
+  groupAdmins: ['sara'],
+  nicknames: { bob: 'Bobby' },
+};
+
+describe('resolveMentions', () => {
+  beforeEach(() => {
+    resetFirestore();
+    seedDoc('users/sara', { displayName: 'Sara' });
+    seedDoc('users/saraLee', { displayName: 'Sara Lee' });
+    seedDoc('users/bob', { displayName: 'Bob' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('matches display names case-insensitively', async () => {
+    await expect(resolveMentions('hey @sara, lunch?', 'bob', conversation)).resolves.toEqual(['sara']);
+  });
+
+  it('prefers the longest matching name', async () => {
+    await expect(resolveMentions('@Sara Lee can you check?', 'bob', conversation)).resolves.toEqual(['saraLee']);
+  });
+
+  it('matches conversation nicknames as well as display names', async () => {
+    const mentioned = await resolveMentions('@Bobby and @bob are the same person', 'sara', conversation);
+    expect(mentioned).toEqual(['bob']);
+  });
+
+  it('requires a word boundary after the name', async () => {
+    await expect(resolveMentions('@Sarah?', 'bob', conversation)).resolves.toEqual([]);
+  });
+
+  it('ignores email addresses', async () => {
+    await expect(resolveMentions('mail sara@example.com', 'bob', conversation)).resolves.toEqual([]);
+  });
+
+  it('never includes the sender', async () => {
+    await expect(resolveMentions('note to self @Bob', 'bob', conversation)).resolves.toEqual([]);
+  });
+
+  it('expands @everyone for group admins only', async () => {
+    await expect(resolveMentions('@everyone meeting at 3', 'sara', conversation)).resolves.toEqual(['saraLee', 'bob']);
+    await expect(resolveMentions('@everyone meeting at 3', 'bob', conversation)).resolves.toEqual([]);
+  });
+
+  it('skips reads for text without mentions', async () => {
+    await expect(resolveMentions('no mentions here', 'bob', { participants: ['missing'] })).resolves.toEqual([]);
+  });
+});
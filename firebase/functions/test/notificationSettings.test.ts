@@ -0,0 +1,109 @@
+jest.mock('firebase-admin/firestore', () => require('./support/fakeFirestore'));
+
+import { getRecipientSettings, isConversationMuted, isInQuietHours } from '../src/utils/notificationSettings';
+import { resetFirestore, seedDoc } from './support/fakeFirestore';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('isConversationMuted', () => {
+  const now = at('2025-03-10T12:00:00Z');
+
+  it('is unmuted without settings', () => {
+    expect(isConversationMuted(undefined, now)).toBe(false);
+    expect(isConversationMuted({ muted: false, mutedUntil: now + 1000 }, now)).toBe(false);
+  });
+
+  it('mutes forever without mutedUntil', () => {
+    expect(isConversationMuted({ muted: true }, now)).toBe(true);
+    expect(isConversationMuted({ muted: true, mutedUntil: null }, now)).toBe(true);
+  });
+
+  it('expires snoozes', () => {
+    expect(isConversationMuted({ muted: true, mutedUntil: now + 1000 }, now)).toBe(true);
+    expect(isConversationMuted({ muted: true, mutedUntil: now - 1000 }, now)).toBe(false);
+  });
+});
+
+describe('isInQuietHours', () => {
+  const overnight = { enabled: true, start: '22:00', end: '07:00' };
+
+  it('handles overnight windows', () => {
+    expect(isInQuietHours(overnight, at('2025-03-10T23:30:00Z'))).toBe(true);
+    expect(isInQuietHours(overnight, at('2025-03-10T06:59:00Z'))).toBe(true);
+    expect(isInQuietHours(overnight, at('2025-03-10T07:00:00Z'))).toBe(false);
+    expect(isInQuietHours(overnight, at('2025-03-10T12:00:00Z'))).toBe(false);
+  });
+
+  it('handles same-day windows', () => {
+    const lunch = { enabled: true, start: '12:00', end: '13:00' };
+    expect(isInQuietHours(lunch, at('2025-03-10T12:30:00Z'))).toBe(true);
+    expect(isInQuietHours(lunch, at('2025-03-10T13:30:00Z'))).toBe(false);
+  });
+
+  it('evaluates the window in the user\'s time zone', () => {
+    const newYork = { ...overnight, timeZone: 'America/New_York' };
+    // 03:30 UTC is 22:30 in New York (EST)
+    expect(isInQuietHours(newYork, at('2025-01-15T03:30:00Z'))).toBe(true);
+    expect(isInQuietHours(newYork, at('2025-01-15T13:00:00Z'))).toBe(false);
+  });
+
+  it('ignores disabled, malformed or empty windows', () => {
+    const now = at('2025-03-10T23:30:00Z');
+    expect(isInQuietHours({ ...overnight, enabled: false }, now)).toBe(false);
+    expect(isInQuietHours({ ...overnight, start: '25:00' }, now)).toBe(false);
+    expect(isInQuietHours({ ...overnight, end: '22:00' }, now)).toBe(false);
+    expect(isInQuietHours({ ...overnight, timeZone: 'Mars/Olympus' }, now)).toBe(false);
+  });
+});
+
+describe('getRecipientSettings', () => {
+  const now = at('2025-03-10T23:30:00Z');
+
+  beforeEach(() => {
+    resetFirestore();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resolves delivery, preview and language per recipient', async () => {
+    seedDoc('users/alert', { preferredLanguage: 'es' });
+    seedDoc('users/muted', { notificationPreview: 'SENDER_ONLY' });
+    seedDoc('users/muted/conversationSettings/c1', { muted: true });
+    seedDoc('users/quiet', { quietHours: { enabled: true, start: '22:00', end: '07:00' } });
+
+    const settings = await getRecipientSettings(['alert', 'muted', 'quiet'], 'c1', { now });
+
+    expect(settings.get('alert')).toEqual({ deliveryMode: 'ALERT', previewMode: 'FULL', language: 'es' });
+    expect(settings.get('muted')).toEqual({ deliveryMode: 'SILENT', previewMode: 'SENDER_ONLY', language: undefined });
+    expect(settings.get('quiet')?.deliveryMode).toBe('SILENT');
+  });
+
+  it('alerts users who bypass a mute, but not during their quiet hours', async () => {
+    seedDoc('users/mentioned', {});
+    seedDoc('users/mentioned/conversationSettings/c1', { muted: true });
+    seedDoc('users/sleeping', { quietHours: { enabled: true, start: '22:00', end: '07:00' } });
+    seedDoc('users/sleeping/conversationSettings/c1', { muted: true });
+
+    const settings = await getRecipientSettings(['mentioned', 'sleeping'], 'c1', {
+      bypassMute: ['mentioned', 'sleeping'],
+      now,
+    });
+
+    expect(settings.get('mentioned')?.deliveryMode).toBe('ALERT');
+    expect(settings.get('sleeping')?.deliveryMode).toBe('SILENT');
+  });
+
+  it('fails open on delivery and closed on preview', async () => {
+    const firestore = jest.requireMock('firebase-admin/firestore').getFirestore();
+    jest.spyOn(firestore, 'collection').mockImplementation(() => {
+      throw new Error('unavailable');
+    });
+
+    const settings = await getRecipientSettings(['u1'], 'c1', { now });
+
+    expect(settings.get('u1')).toEqual({ deliveryMode: 'ALERT', previewMode: 'HIDDEN' });
+  });
+});
@@ -0,0 +1,126 @@
+jest.mock('firebase-admin/firestore', () => require('./support/fakeFirestore'));
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import { checkRateLimit, getQuotaStatuses } from '../src/utils/rateLimit';
+import { monthKey } from '../src/utils/usage';
+import { readDoc, resetFirestore, seedDoc } from './support/fakeFirestore';
+
+const HOUR = 60 * 60 * 1000;
+const WINDOW_START = Date.UTC(2025, 2, 10, 12);
+
+describe('checkRateLimit', () => {
+  let now: number;
+
+  beforeEach(() => {
+    resetFirestore();
+    now = WINDOW_START;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('consumes one request per call and reports what is left', async () => {
+    const first = await checkRateLimit('u1', 'smartReply');
+    const second = await checkRateLimit('u1', 'smartReply');
+
+    expect(first).toMatchObject({ feature: 'smartReply', plan: 'free', limit: 50, used: 1, remaining: 49 });
+    expect(second).toMatchObject({ used: 2, remaining: 48, resetAt: WINDOW_START + HOUR });
+    expect(readDoc('rateLimits/u1/features/smartReply')).toMatchObject({ windowStart: WINDOW_START, count: 2 });
+    expect(readDoc('rateLimitBudgets/smartReply/shards/0')).toMatchObject({ count: 2 });
+  });
+
+  it('rejects the request over the free limit with when to retry', async () => {
+    seedDoc('rateLimits/u1/features/smartReply', { windowStart: WINDOW_START, count: 50, previousCount: 0 });
+
+    const error = await checkRateLimit('u1', 'smartReply').catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpsError);
+    expect(error.code).toBe('resource-exhausted');
+    expect(error.details).toEqual({ feature: 'smartReply', plan: 'free', resetAt: WINDOW_START + HOUR });
+    expect(readDoc('rateLimits/u1/features/smartReply')?.count).toBe(50);
+  });
+
+  it('applies the plan from the user document', async () => {
+    seedDoc('users/u1', { plan: 'pro' });
+    seedDoc('rateLimits/u1/features/smartReply', { windowStart: WINDOW_START, count: 50, previousCount: 0 });
+
+    await expect(checkRateLimit('u1', 'smartReply')).resolves.toMatchObject({ plan: 'pro', limit: 500, used: 51 });
+  });
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    seedDoc('rateLimits/u1/features/smartReply', { windowStart: WINDOW_START - HOUR, count: 50, previousCount: 0 });
+    now = WINDOW_START + HOUR / 2;
+
+    const status = await checkRateLimit('u1', 'smartReply');
+
+    expect(status).toMatchObject({ used: 26, remaining: 24 });
+    expect(readDoc('rateLimits/u1/features/smartReply')).toMatchObject({
+      windowStart: WINDOW_START,
+      count: 1,
+      previousCount: 50,
+    });
+  });
+
+  it('rejects once the global budget shard is used up', async () => {
+    seedDoc('rateLimitBudgets/smartReply/shards/0', { windowStart: WINDOW_START, count: 2000, previousCount: 0 });
+
+    await expect(checkRateLimit('u1', 'smartReply')).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      details: { feature: 'smartReply', resetAt: WINDOW_START + HOUR },
+    });
+    expect(readDoc('rateLimits/u1/features/smartReply')).toBeUndefined();
+  });
+
+  it('rejects users over their monthly spend cap', async () => {
+    seedDoc(`usageMonthly/u1/months/${monthKey(now)}`, { costUsd: 2 });
+
+    await expect(checkRateLimit('u1', 'smartReply')).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      details: { plan: 'free', month: monthKey(now) },
+    });
+  });
+
+  it('throws internal for a feature without a quota', async () => {
+    await expect(checkRateLimit('u1', 'unknownFeature')).rejects.toMatchObject({ code: 'internal' });
+  });
+
+  it('fails closed when the counters cannot be read', async () => {
+    const firestore = jest.requireMock('firebase-admin/firestore').getFirestore();
+    jest.spyOn(firestore, 'runTransaction').mockRejectedValue(new Error('deadline exceeded'));
+
+    await expect(checkRateLimit('u1', 'smartReply')).rejects.toMatchObject({ code: 'unavailable' });
+  });
+});
+
+describe('getQuotaStatuses', () => {
+  beforeEach(() => {
+    resetFirestore();
+    jest.spyOn(Date, 'now').mockReturnValue(WINDOW_START + HOUR / 4);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports every feature without consuming anything', async () => {
+    seedDoc('rateLimits/u1/features/formality', { windowStart: WINDOW_START, count: 50, previousCount: 0 });
+
+    const statuses = await getQuotaStatuses('u1');
+    const formality = statuses.find((status) => status.feature === 'formality');
+    const translation = statuses.find((status) => status.feature === 'translation');
+
+    expect(formality).toMatchObject({ plan: 'free', used: 50, remaining: 0, resetAt: WINDOW_START + HOUR });
+    expect(translation).toMatchObject({ used: 0, remaining: 100 });
+    expect(readDoc('rateLimits/u1/features/formality')?.count).toBe(50);
+  });
+
+  it('reports admins as unlimited', async () => {
+    const statuses = await getQuotaStatuses('u1', 'admin');
+    expect(statuses.every((status) => status.limit === null && status.remaining === null)).toBe(true);
+  });
+});
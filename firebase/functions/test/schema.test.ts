@@ -0,0 +1,142 @@
+import {
+  array,
+  boolean,
+  languageTag,
+  number,
+  object,
+  oneOf,
+  optional,
+  preprocess,
+  refine,
+  string,
+  validate,
+} from '../src/utils/schema';
+
+describe('schema', () => {
+  describe('string', () => {
+    it('trims and truncates', () => {
+      expect(validate(string({ maxLength: 5 }), '  hello world ')).toEqual({ value: 'hello', issues: [] });
+    });
+
+    it('treats blank strings as missing', () => {
+      expect(validate(string(), '   ')).toEqual({ value: undefined, issues: ['$: required'] });
+      expect(validate(string({ default: 'x' }), '   ')).toEqual({ value: 'x', issues: [] });
+    });
+
+    it('coerces numbers and rejects objects', () => {
+      expect(validate(string(), 42).value).toBe('42');
+      expect(validate(string({ default: 'x' }), {})).toEqual({ value: 'x', issues: ['$: expected a string'] });
+    });
+  });
+
+  describe('number', () => {
+    it('accepts numeric strings and clamps to the range', () => {
+      expect(validate(number({ min: 0, max: 1 }), ' 0.5 ').value).toBe(0.5);
+      expect(validate(number({ min: 0, max: 1 }), 7)).toEqual({ value: 1, issues: [] });
+      expect(validate(number({ min: 0, max: 1 }), -3).value).toBe(0);
+    });
+
+    it('rejects non-numbers', () => {
+      expect(validate(number(), 'high')).toEqual({ value: undefined, issues: ['$: expected a number'] });
+      expect(validate(number({ default: 0 }), NaN)).toEqual({ value: 0, issues: ['$: expected a number'] });
+    });
+  });
+
+  describe('boolean', () => {
+    it('accepts boolean strings only', () => {
+      expect(validate(boolean(), 'true').value).toBe(true);
+      expect(validate(boolean(), 'false').value).toBe(false);
+      expect(validate(boolean(), 'yes')).toEqual({ value: undefined, issues: ['$: expected a boolean'] });
+    });
+  });
+
+  describe('oneOf', () => {
+    const category = oneOf(['AFFIRMATIVE', 'FOLLOW_UP'] as const);
+
+    it('matches ignoring case, spaces and hyphens', () => {
+      expect(validate(category, 'affirmative').value).toBe('AFFIRMATIVE');
+      expect(validate(category, 'follow-up').value).toBe('FOLLOW_UP');
+      expect(validate(category, 'Follow up').value).toBe('FOLLOW_UP');
+    });
+
+    it('lists the allowed values when rejecting', () => {
+      expect(validate(category, 'NEGATIVE').issues).toEqual(['$: expected one of AFFIRMATIVE, FOLLOW_UP']);
+    });
+  });
+
+  describe('array', () => {
+    it('drops invalid items and stops at maxItems', () => {
+      const result = validate(array(number(), { maxItems: 3 }), [1, 'x', 3, 4]);
+      expect(result).toEqual({ value: [1, 3], issues: ['$[1]: expected a number'] });
+    });
+
+    it('rejects non-arrays', () => {
+      expect(validate(array(number(), { default: [] }), 'nope')).toEqual({ value: [], issues: ['$: expected an array'] });
+    });
+  });
+
+  describe('object', () => {
+    const reply = object<{ text: string; confidence: number; note?: string }>({
+      text: string(),
+      confidence: number({ min: 0, max: 1, default: 0.5 }),
+      note: optional(string()),
+    });
+
+    it('fills defaults and drops unknown keys', () => {
+      expect(validate(reply, { text: 'Hi', extra: true })).toEqual({ value: { text: 'Hi', confidence: 0.5 }, issues: [] });
+    });
+
+    it('is invalid when a required field is', () => {
+      expect(validate(reply, { confidence: 0.9 })).toEqual({ value: undefined, issues: ['$.text: required'] });
+    });
+
+    it('keeps the object when only an optional field is invalid', () => {
+      expect(validate(reply, { text: 'Hi', note: {} })).toEqual({
+        value: { text: 'Hi', confidence: 0.5 },
+        issues: ['$.note: expected a string'],
+      });
+    });
+
+    it('reports item paths inside arrays', () => {
+      const result = validate(array(reply), [{ text: 'ok' }, { text: '' }]);
+      expect(result).toEqual({ value: [{ text: 'ok', confidence: 0.5 }], issues: ['$[1].text: required'] });
+    });
+
+    it('rejects arrays and primitives', () => {
+      expect(validate(reply, []).issues).toEqual(['$: expected an object']);
+    });
+  });
+
+  describe('optional', () => {
+    it('treats null and empty strings as absent', () => {
+      expect(validate(optional(number()), null)).toEqual({ value: undefined, issues: [] });
+      expect(validate(optional(number()), '')).toEqual({ value: undefined, issues: [] });
+    });
+  });
+
+  describe('preprocess', () => {
+    it('transforms before validating and keeps optionality', () => {
+      const legacy = preprocess((value) => (value === 'n/a' ? undefined : value), optional(string()));
+      expect(validate(legacy, 'n/a')).toEqual({ value: undefined, issues: [] });
+      expect(legacy.optional).toBe(true);
+    });
+  });
+
+  describe('refine', () => {
+    it('rejects values failing the check', () => {
+      const even = refine(number(), (value) => value % 2 === 0, 'expected an even number');
+      expect(validate(even, 4).value).toBe(4);
+      expect(validate(even, 3)).toEqual({ value: undefined, issues: ['$: expected an even number'] });
+    });
+  });
+
+  describe('languageTag', () => {
+    it('accepts BCP-47 tags and rejects anything else', () => {
+      expect(validate(languageTag(), 'pt-BR')).toEqual({ value: 'pt-BR', issues: [] });
+      expect(validate(languageTag({ default: 'en' }), 'Portuguese!')).toEqual({
+        value: undefined,
+        issues: ['$: expected a BCP-47 language tag'],
+      });
+    });
+  });
+});
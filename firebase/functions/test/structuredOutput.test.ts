@@ -0,0 +1,70 @@
+jest.mock('firebase-admin/firestore', () => require('./support/fakeFirestore'));
+
+import { chatJsonValidated, InvalidOutputError } from '../src/ai/structuredOutput';
+import { setAIProvider } from '../src/ai/providers';
+import { FakeProvider } from '../src/ai/providers/fakeProvider';
+import { array, number, object, oneOf, string } from '../src/utils/schema';
+
+const replies = object<{ replies: Array<{ text: string; confidence: number; category: string }> }>({
+  replies: array(object({
+    text: string(),
+    confidence: number({ min: 0, max: 1 }),
+    category: oneOf(['AFFIRMATIVE', 'QUESTION', 'NEUTRAL']),
+  })),
+});
+
+const segments = object<{ segments: Array<{ id: string; translatedText: string }> }>({
+  segments: array(object({ id: string(), translatedText: string() })),
+});
+
+describe('chatJsonValidated with the fake provider', () => {
+  beforeEach(() => {
+    setAIProvider(new FakeProvider());
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setAIProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  it('returns valid fixture output without a repair', async () => {
+    const result = await chatJsonValidated({
+      feature: 'smartReply',
+      messages: [{ role: 'user', content: 'Are we still on for tonight?' }],
+    }, replies);
+
+    expect(result.repaired).toBe(false);
+    expect(result.issues).toEqual([]);
+    expect(result.data.replies.map((reply) => reply.category)).toEqual(['AFFIRMATIVE', 'QUESTION', 'NEUTRAL']);
+  });
+
+  it('translates the JSON payload inside untrusted-content delimiters', async () => {
+    const payload = JSON.stringify({ segments: [{ id: 's1', text: 'hola' }] });
+    const result = await chatJsonValidated({
+      feature: 'translation',
+      messages: [{ role: 'user', content: `<untrusted-message>${payload}</untrusted-message>` }],
+    }, segments);
+
+    expect(result.data.segments).toEqual([{ id: 's1', translatedText: '[translation] hola' }]);
+  });
+
+  it('answers a non-JSON prompt with empty output instead of throwing', async () => {
+    const result = await chatJsonValidated({
+      feature: 'translation',
+      messages: [{ role: 'user', content: 'hola, ¿qué tal?' }],
+    }, segments);
+
+    expect(result.data).toEqual({ segments: [] });
+  });
+
+  it('gives up after one repair when the output stays invalid', async () => {
+    const chatJson = jest.spyOn(FakeProvider.prototype, 'chatJson');
+
+    await expect(chatJsonValidated({
+      feature: 'unknownFeature',
+      messages: [{ role: 'user', content: 'hi' }],
+    }, replies)).rejects.toBeInstanceOf(InvalidOutputError);
+    expect(chatJson).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * In-memory stand-in for firebase-admin/firestore
+ *
+ * Covers the subset of the API the functions use: documents and
+ * subcollections, set (with merge), update with field paths, FieldValue
+ * sentinels, batches, transactions, getAll and simple where/count queries.
+ * Tests swap it in with:
+ *
+ *   jest.mock('firebase-admin/firestore', () => require('./support/fakeFirestore'));
+ */
+
+type Data = Record<string, any>;
+
+const NOT_FOUND = 5;
+
+class Sentinel {
+  constructor(readonly kind: 'increment' | 'serverTimestamp' | 'delete', readonly amount = 0) {}
+}
+
+export const FieldValue = {
+  increment: (amount: number) => new Sentinel('increment', amount),
+  serverTimestamp: () => new Sentinel('serverTimestamp'),
+  delete: () => new Sentinel('delete'),
+};
+
+export class Timestamp {
+  constructor(private readonly millis: number) {}
+
+  static fromMillis(millis: number): Timestamp {
+    return new Timestamp(millis);
+  }
+
+  static now(): Timestamp {
+    return new Timestamp(Date.now());
+  }
+
+  toMillis(): number {
+    return this.millis;
+  }
+}
+
+export const FieldPath = {
+  documentId: () => '__name__',
+};
+
+const store = new Map<string, Data>();
+let autoId = 0;
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Sentinel) && !(value instanceof Timestamp);
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, clone(field)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Write `value` at `current`, resolving sentinels; returns undefined to delete the field
+ */
+function resolve(current: unknown, value: unknown, merge: boolean): unknown {
+  if (value instanceof Sentinel) {
+    if (value.kind === 'increment') return (typeof current === 'number' ? current : 0) + value.amount;
+    if (value.kind === 'serverTimestamp') return Timestamp.now();
+    return undefined;
+  }
+  if (isPlainObject(value)) {
+    const target: Data = merge && isPlainObject(current) ? { ...current } : {};
+    Object.entries(value).forEach(([key, field]) => {
+      const next = resolve(target[key], field, merge);
+      if (next === undefined) delete target[key];
+      else target[key] = next;
+    });
+    return target;
+  }
+  return clone(value);
+}
+
+function setPath(data: Data, fieldPath: string, value: unknown): void {
+  const keys = fieldPath.split('.');
+  let target = data;
+  keys.slice(0, -1).forEach((key) => {
+    if (!isPlainObject(target[key])) target[key] = {};
+    target = target[key];
+  });
+
+  const last = keys[keys.length - 1];
+  const next = resolve(target[last], value, false);
+  if (next === undefined) delete target[last];
+  else target[last] = next;
+}
+
+export class DocumentSnapshot {
+  constructor(readonly ref: DocumentReference, private readonly stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : clone(this.stored);
+  }
+}
+
+export class DocumentReference {
+  constructor(readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string): CollectionReference {
+    return new CollectionReference(`${this.path}/${name}`);
+  }
+
+  async get(): Promise<DocumentSnapshot> {
+    return snapshot(this);
+  }
+
+  async set(data: Data, options: { merge?: boolean } = {}): Promise<void> {
+    applySet(this, data, options);
+  }
+
+  async update(data: Data): Promise<void> {
+    applyUpdate(this, data);
+  }
+
+  async delete(): Promise<void> {
+    store.delete(this.path);
+  }
+}
+
+type Operator = '==' | '>' | '>=' | '<' | '<=';
+
+class Query {
+  constructor(
+    protected readonly path: string,
+    private readonly filters: Array<{ field: string; op: Operator; value: unknown }> = []
+  ) {}
+
+  where(field: string, op: Operator, value: unknown): Query {
+    return new Query(this.path, [...this.filters, { field, op, value }]);
+  }
+
+  count() {
+    return {
+      get: async () => {
+        const count = this.matching().length;
+        return { data: () => ({ count }) };
+      },
+    };
+  }
+
+  async get() {
+    const docs = this.matching().map((ref) => snapshot(ref));
+    return { docs, size: docs.length, empty: docs.length === 0 };
+  }
+
+  private matching(): DocumentReference[] {
+    const depth = this.path.split('/').length + 1;
+    return Array.from(store.keys())
+      .filter((path) => path.startsWith(`${this.path}/`) && path.split('/').length === depth)
+      .sort()
+      .map((path) => new DocumentReference(path))
+      .filter((ref) => this.filters.every(({ field, op, value }) => compare(store.get(ref.path)?.[field], op, value)));
+  }
+}
+
+function compare(actual: any, op: Operator, expected: any): boolean {
+  switch (op) {
+    case '==': return actual === expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+export class CollectionReference extends Query {
+  doc(id?: string): DocumentReference {
+    return new DocumentReference(`${this.path}/${id ?? `auto${++autoId}`}`);
+  }
+}
+
+function snapshot(ref: DocumentReference): DocumentSnapshot {
+  return new DocumentSnapshot(ref, store.get(ref.path));
+}
+
+function applySet(ref: DocumentReference, data: Data, options: { merge?: boolean }): void {
+  store.set(ref.path, resolve(options.merge ? store.get(ref.path) : undefined, data, !!options.merge) as Data);
+}
+
+function applyUpdate(ref: DocumentReference, data: Data): void {
+  const current = store.get(ref.path);
+  if (!current) {
+    throw Object.assign(new Error(`No document to update: ${ref.path}`), { code: NOT_FOUND });
+  }
+
+  const updated = clone(current);
+  Object.entries(data).forEach(([fieldPath, value]) => setPath(updated, fieldPath, value));
+  store.set(ref.path, updated);
+}
+
+class WriteBatch {
+  private readonly writes: Array<() => void> = [];
+
+  set(ref: DocumentReference, data: Data, options: { merge?: boolean } = {}): this {
+    this.writes.push(() => applySet(ref, data, options));
+    return this;
+  }
+
+  update(ref: DocumentReference, data: Data): this {
+    this.writes.push(() => applyUpdate(ref, data));
+    return this;
+  }
+
+  delete(ref: DocumentReference): this {
+    this.writes.push(() => store.delete(ref.path));
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    // All or nothing, like Firestore
+    const before = new Map(store);
+    try {
+      this.writes.forEach((write) => write());
+    } catch (error) {
+      store.clear();
+      before.forEach((data, path) => store.set(path, data));
+      throw error;
+    }
+  }
+}
+
+class Transaction extends WriteBatch {
+  async get(target: DocumentReference | { get: () => Promise<unknown> }): Promise<any> {
+    return target.get();
+  }
+}
+
+class Firestore {
+  collection(name: string): CollectionReference {
+    return new CollectionReference(name);
+  }
+
+  doc(path: string): DocumentReference {
+    return new DocumentReference(path);
+  }
+
+  batch(): WriteBatch {
+    return new WriteBatch();
+  }
+
+  async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+    return refs.map((ref) => snapshot(ref));
+  }
+
+  async runTransaction<T>(update: (transaction: Transaction) => Promise<T>): Promise<T> {
+    const transaction = new Transaction();
+    const result = await update(transaction);
+    await transaction.commit();
+    return result;
+  }
+}
+
+const firestore = new Firestore();
+
+export function getFirestore(): Firestore {
+  return firestore;
+}
+
+/**
+ * Test helpers
+ */
+export function resetFirestore(): void {
+  store.clear();
+}
+
+export function seedDoc(path: string, data: Data): void {
+  store.set(path, resolve(undefined, data, false) as Data);
+}
+
+export function readDoc(path: string): Data | undefined {
+  const data = store.get(path);
+  return data === undefined ? undefined : clone(data);
+}